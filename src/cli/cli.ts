@@ -0,0 +1,390 @@
+/**
+ * Headless command-line runner.
+ *
+ * Runs one simulation to totalPrimordia and writes the primordia and
+ * divergence metrics as CSV or JSON. The config file uses the same format as
+ * the Export button; omitted sections take their defaults.
+ *
+ * Usage:
+ *   phyllotaxis [config.json] [--set key=value ...] [--seed n]
+ *               [--format csv|json] [--out file] [--voronoi] [--quiet]
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  defaultConfig,
+  defaultDrift,
+  defaultGeometry,
+  defaultInitiation,
+  defaultKernel,
+  defaultPlacement,
+  defaultSize,
+  normalizeConfig,
+  type DriftConfig,
+  type GeometryConfig,
+  type InitiationConfig,
+  type KernelConfig,
+  type PlacementConfig,
+  type SimConfig,
+  type SizeConfig
+} from '../sim/config';
+import { validateConfig } from '../sim/validation';
+import { Simulator } from '../sim/simulator';
+import { computeTessellation, type Tessellation, type VoronoiCell } from '../sim/voronoi';
+
+const USAGE = `Usage: phyllotaxis [config.json] [options]
+
+Options:
+  --set key=value   Override one parameter (repeatable). Nested keys use dots,
+                    e.g. --set kernel.lambda=0.2 --set totalPrimordia=2000
+                    (kernel.type, geometry.type, drift.law, size.law,
+                    initiation.mode and placement.solver fill in the
+                    chosen variant's default parameters)
+  --seed n          Noise seed (same as --set noise.seed=n)
+  --format csv|json Output format (default: from --out extension, else csv)
+  --out file        Write to a file instead of stdout
+  --voronoi         Add Voronoi cell area, sides and packing per primordium
+                    (empty for boundary cells) and tessellation statistics
+  --quiet           No summary on stderr
+  --help            Show this message`;
+
+// =============================================================================
+// Config Overrides
+// =============================================================================
+
+const KERNEL_TYPES: KernelConfig['type'][] = ['exp', 'gaussian', 'softPower', 'hardCoreExp', 'ellipticalExp', 'custom'];
+const GEOMETRY_TYPES: GeometryConfig['type'][] = ['disk', 'cylinder', 'dome'];
+const DRIFT_LAWS: DriftConfig['law'][] = ['linear', 'exponential', 'custom'];
+const SIZE_LAWS: SizeConfig['law'][] = ['none', 'linear', 'exponential', 'proportional'];
+const INITIATION_MODES: InitiationConfig['mode'][] = ['argmin', 'threshold'];
+const PLACEMENT_SOLVERS: PlacementConfig['solver'][] = ['sampled', 'continuous'];
+
+/**
+ * Parse an override value: JSON where possible (numbers, booleans, objects),
+ * otherwise the raw string (e.g. expressions).
+ */
+function parseValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Apply a "a.b.c=value" override to a config in place. The value must have
+ * the type of the field it replaces (string fields take the raw text).
+ * Changing a discriminant (kernel.type, geometry.type, drift.law, size.law,
+ * initiation.mode, placement.solver) fills in the new variant's default
+ * parameters, keeping those the old variant shares with it.
+ */
+function applyOverride(cfg: SimConfig, assignment: string): void {
+  const eq = assignment.indexOf('=');
+  if (eq <= 0) throw new Error(`Invalid --set "${assignment}": expected key=value`);
+
+  const path = assignment.slice(0, eq).trim().split('.');
+  const section = path.slice(0, -1).join('.');
+  const last = path[path.length - 1];
+  const target = overrideSection(cfg, section);
+  if (!target) {
+    throw new Error(`Invalid --set "${assignment}": no section "${section}"`);
+  }
+
+  const fields = new Map<string, unknown>(Object.entries(target));
+  if (!fields.has(last)) {
+    throw new Error(`Invalid --set "${assignment}": unknown parameter "${path.join('.')}"`);
+  }
+  const raw = assignment.slice(eq + 1).trim();
+  const current = fields.get(last);
+  const value = typeof current === 'string' ? raw : parseValue(raw);
+  if (current !== null && typeof value !== typeof current) {
+    throw new Error(`Invalid --set "${assignment}": ${path.join('.')} must be a ${typeof current}`);
+  }
+
+  if (switchVariant(cfg, assignment, section, last, value)) return;
+  Object.assign(target, { [last]: value });
+}
+
+/**
+ * The config object whose fields an override section names ('' for the
+ * top level), or null if there is none (e.g. kernel.params of a built-in
+ * kernel).
+ */
+function overrideSection(cfg: SimConfig, section: string): object | null {
+  switch (section) {
+    case '': return cfg;
+    case 'geometry': return cfg.geometry;
+    case 'drift': return cfg.drift;
+    case 'size': return cfg.size;
+    case 'initiation': return cfg.initiation;
+    case 'placement': return cfg.placement;
+    case 'fieldEval': return cfg.fieldEval;
+    case 'kernel': return cfg.kernel;
+    case 'kernel.params': return cfg.kernel.type === 'custom' ? cfg.kernel.params : null;
+    case 'schedule': return cfg.schedule;
+    case 'noise': return cfg.noise;
+    case 'noise.birthRadius': return cfg.noise.birthRadius;
+    case 'noise.amplitude': return cfg.noise.amplitude;
+    case 'noise.timing': return cfg.noise.timing;
+    case 'render': return cfg.render;
+    default: return null;
+  }
+}
+
+/**
+ * If `section.key` is a discriminant, replace the section with the default
+ * variant `value` names, keeping the fields the old variant shares with it.
+ * Returns false if it is not a discriminant.
+ */
+function switchVariant(cfg: SimConfig, assignment: string, section: string, key: string, value: unknown): boolean {
+  const pick = <T extends string>(values: readonly T[], what: string): T => {
+    const match = values.find((v) => v === value);
+    if (match === undefined) {
+      throw new Error(`Invalid --set "${assignment}": unknown ${what} (expected ${values.join(', ')})`);
+    }
+    return match;
+  };
+
+  switch (`${section}.${key}`) {
+    case 'kernel.type':
+      cfg.kernel = keepShared(cfg.kernel, defaultKernel(pick(KERNEL_TYPES, 'kernel type')), key);
+      return true;
+    case 'geometry.type':
+      cfg.geometry = keepShared(cfg.geometry, defaultGeometry(pick(GEOMETRY_TYPES, 'geometry type')), key);
+      return true;
+    case 'drift.law':
+      cfg.drift = keepShared(cfg.drift, defaultDrift(pick(DRIFT_LAWS, 'drift law')), key);
+      return true;
+    case 'size.law':
+      cfg.size = keepShared(cfg.size, defaultSize(pick(SIZE_LAWS, 'size law')), key);
+      return true;
+    case 'initiation.mode':
+      cfg.initiation = keepShared(cfg.initiation, defaultInitiation(pick(INITIATION_MODES, 'initiation mode')), key);
+      return true;
+    case 'placement.solver':
+      cfg.placement = keepShared(cfg.placement, defaultPlacement(pick(PLACEMENT_SOLVERS, 'placement solver')), key);
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Copy the fields of `old` that `variant` also has (except the discriminant)
+ * into `variant`.
+ */
+function keepShared<T extends object>(old: T, variant: T, discriminant: string): T {
+  const oldFields = new Map(Object.entries(old));
+  for (const key of Object.keys(variant)) {
+    if (key !== discriminant && oldFields.has(key)) Object.assign(variant, { [key]: oldFields.get(key) });
+  }
+  return variant;
+}
+
+// =============================================================================
+// Output
+// =============================================================================
+
+function formatCsv(sim: Simulator, cfg: SimConfig, tessellation: Tessellation | null): string {
+  const { divergence, plastochron, placement } = summarize(sim, cfg);
+  const lines = [
+    `# divergence_mean_deg=${divergence.mean}`,
+    `# divergence_std_deg=${divergence.stdDev}`,
+    `# divergence_count=${divergence.count}`,
+    `# divergence_circular_mean_deg=${divergence.circularMean}`,
+    `# divergence_circular_variance=${divergence.circularVariance}`,
+    `# divergence_chirality=${divergence.chirality}`,
+    `# divergence_folded_deg=${divergence.folded}`,
+    `# divergence_continued_fraction=${divergence.continuedFraction.join(' ')}`
+  ];
+  if (divergence.noble) {
+    lines.push(
+      `# noble_name=${divergence.noble.name}`,
+      `# noble_deg=${divergence.noble.degrees}`,
+      `# noble_deviation_deg=${divergence.noble.deviation}`,
+      `# noble_series=${divergence.noble.series.join(' ')}`
+    );
+  }
+  if (plastochron) {
+    lines.push(
+      `# plastochron_mean=${plastochron.mean}`,
+      `# plastochron_std=${plastochron.stdDev}`,
+      `# plastochron_simultaneous=${plastochron.simultaneous}`
+    );
+  }
+  if (placement) {
+    lines.push(
+      `# placement_gap=${placement.gap}`,
+      `# placement_min_gap=${placement.minGap}`
+    );
+  }
+  if (tessellation) {
+    const stats = tessellation.stats;
+    lines.push(
+      `# voronoi_cells=${stats.cells}`,
+      `# voronoi_boundary=${stats.boundary}`,
+      `# voronoi_mean_area=${stats.meanArea}`,
+      `# voronoi_area_cv=${stats.areaCV}`,
+      `# voronoi_sides=${formatSideCounts(stats.sideCounts)}`,
+      `# voronoi_defects=${stats.defects}`,
+      `# voronoi_packing=${stats.packingEfficiency}`
+    );
+  }
+  // Organ size column only with a size law, ablated column only with ablations
+  const sized = sim.hasOrganSizes();
+  const ablations = hasAblations(cfg);
+  lines.push(
+    'index,theta,r,birth_step' + (sized ? ',size' : '') + (ablations ? ',ablated' : '') +
+    (tessellation ? ',cell_area,cell_sides,cell_packing' : '')
+  );
+
+  const view = sim.primordia;
+  const cells = cellsByIndex(tessellation);
+  for (let i = 0; i < view.count; i++) {
+    let row = `${i},${view.theta(i)},${view.radius(i)},${view.birthStep(i)}`;
+    if (sized) row += `,${view.size(i)}`;
+    if (ablations) row += `,${view.ablated(i) ? 1 : 0}`;
+    if (tessellation) {
+      const cell = cells.get(i);
+      row += cell ? `,${cell.area},${cell.sides},${cell.packing}` : ',,,';
+    }
+    lines.push(row);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function formatJson(sim: Simulator, cfg: SimConfig, tessellation: Tessellation | null): string {
+  const view = sim.primordia;
+  const sized = sim.hasOrganSizes();
+  const ablations = hasAblations(cfg);
+  const cells = cellsByIndex(tessellation);
+  const primordia = [];
+  for (let i = 0; i < view.count; i++) {
+    const p = { index: i, theta: view.theta(i), r: view.radius(i), birthStep: view.birthStep(i) };
+    const cell = cells.get(i);
+    primordia.push({
+      ...p,
+      ...(sized ? { size: view.size(i) } : {}),
+      ...(ablations ? { ablated: view.ablated(i) } : {}),
+      ...(tessellation ? { cell: cell ? { area: cell.area, sides: cell.sides, packing: cell.packing } : null } : {})
+    });
+  }
+  const metrics = {
+    ...summarize(sim, cfg),
+    ...(tessellation ? { voronoi: tessellation.stats } : {})
+  };
+  return JSON.stringify({ config: cfg, metrics, primordia }, null, 2) + '\n';
+}
+
+/** Closed cells by primordium index (boundary primordia have none) */
+function cellsByIndex(tessellation: Tessellation | null): Map<number, VoronoiCell> {
+  return new Map((tessellation?.cells ?? []).map((cell) => [cell.index, cell]));
+}
+
+/** Side-count histogram as "sides:count" pairs, e.g. "5:12 6:340 7:12" */
+function formatSideCounts(sideCounts: Record<number, number>): string {
+  return Object.entries(sideCounts).map(([sides, count]) => `${sides}:${count}`).join(' ');
+}
+
+function hasAblations(cfg: SimConfig): boolean {
+  return cfg.interventions.some((intervention) => intervention.type === 'ablate');
+}
+
+function summarize(sim: Simulator, cfg: SimConfig) {
+  return {
+    steps: sim.getStepCount(),
+    divergence: sim.computeDivergenceMetrics(),
+    plastochron: cfg.initiation.mode === 'threshold' ? sim.computePlastochronMetrics() : null,
+    placement: sim.getPlacementStats()
+  };
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+function main(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      set: { type: 'string', multiple: true },
+      seed: { type: 'string' },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      voronoi: { type: 'boolean', default: false },
+      quiet: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length > 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const cfg = positionals.length === 1
+    ? normalizeConfig(JSON.parse(readFileSync(positionals[0], 'utf8')))
+    : defaultConfig();
+
+  for (const assignment of values.set ?? []) {
+    applyOverride(cfg, assignment);
+  }
+  if (values.seed !== undefined) {
+    applyOverride(cfg, `noise.seed=${values.seed}`);
+  }
+
+  const format = values.format ?? (values.out?.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+  if (format !== 'csv' && format !== 'json') {
+    console.error(`Unknown format "${format}" (expected csv or json)`);
+    return 2;
+  }
+
+  const result = validateConfig(cfg);
+  for (const warning of result.warnings) console.error(`Warning: ${warning}`);
+  if (!result.valid) {
+    for (const error of result.errors) console.error(`Error: ${error}`);
+    return 1;
+  }
+
+  const sim = new Simulator();
+  sim.init(cfg);
+  sim.reset();
+  const start = Date.now();
+  while (!sim.isComplete()) {
+    sim.runBatch();
+  }
+  for (const warning of sim.getScheduleWarnings()) console.error(`Warning: ${warning}`);
+
+  const tessellation = values.voronoi
+    ? computeTessellation(sim.primordia, { cylinderRadius: cfg.geometry.type === 'cylinder' ? cfg.R : undefined })
+    : null;
+  const output = format === 'json' ? formatJson(sim, cfg, tessellation) : formatCsv(sim, cfg, tessellation);
+  if (values.out) {
+    writeFileSync(values.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  if (!values.quiet) {
+    const metrics = sim.computeDivergenceMetrics();
+    console.error(
+      `${sim.primordia.count} primordia in ${sim.getStepCount()} steps (${Date.now() - start} ms); ` +
+      `divergence ${metrics.circularMean.toFixed(2)}° (circular variance ${metrics.circularVariance.toExponential(2)})` +
+      (metrics.noble ? `, nearest noble ${metrics.noble.name} (${metrics.noble.series.slice(0, 6).join(', ')}, …)` : '')
+    );
+  }
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+}
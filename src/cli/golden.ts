@@ -0,0 +1,488 @@
+/**
+ * Golden-output regression check.
+ *
+ * Runs every preset and one configuration per kernel type headlessly and
+ * compares the θ sequence and divergence metrics with the golden files, then
+ * checks validateConfig edge cases, the custom-kernel penalty handling and
+ * that a run saved and restored mid-way continues bit for bit.
+ * With --update the golden files are rewritten from the current code; do that
+ * only for an intended change in numerical behaviour, and review the diff.
+ *
+ * Usage:
+ *   golden [--update] [--only text] [--tolerance x] [--dir golden]
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  PRESETS,
+  cloneConfig,
+  defaultConfig,
+  defaultCustomParams,
+  type KernelConfig,
+  type SimConfig
+} from '../sim/config';
+import { validateConfig } from '../sim/validation';
+import { Simulator } from '../sim/simulator';
+import { compileKernel, kernelCutoffDistance, CUSTOM_BAD_PENALTY } from '../sim/kernel';
+import { GaussianRNG, mulberry32 } from '../sim/prng';
+import { decodeFloat64, parseSnapshot, type SimulatorSnapshot } from '../sim/snapshot';
+
+const USAGE = `Usage: golden [options]
+
+Options:
+  --update          Rewrite the golden files from the current code
+  --only text       Only run cases whose name contains text
+  --tolerance x     Allowed relative difference (default 1e-9)
+  --dir path        Golden file directory (default: golden)
+  --help            Show this message`;
+
+/** Runs longer than this are cut short (stress-test presets) */
+const GOLDEN_MAX_PRIMORDIA = 1000;
+
+/** Primordia per kernel case (fewer for custom kernels, which are interpreted) */
+const KERNEL_CASE_PRIMORDIA = 400;
+const CUSTOM_KERNEL_CASE_PRIMORDIA = 150;
+
+/** Primordia per continuation check (stopped and resumed after 100 steps) */
+const CONTINUATION_PRIMORDIA = 300;
+
+/** Values per generator in the PRNG case */
+const PRNG_SAMPLES = 64;
+
+// =============================================================================
+// Golden Cases
+// =============================================================================
+
+/** Named numbers and sequences compared against the golden file */
+type GoldenValues = Record<string, number | number[]>;
+
+interface GoldenCase {
+  name: string;
+  /** Stored alongside the values for reference (not compared) */
+  config?: SimConfig;
+  compute: () => GoldenValues;
+}
+
+interface GoldenFile {
+  name: string;
+  config?: SimConfig;
+  values: GoldenValues;
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function runCase(name: string, cfg: SimConfig): GoldenCase {
+  return {
+    name,
+    config: cfg,
+    compute: () => {
+      const sim = new Simulator();
+      sim.init(cfg);
+      sim.reset();
+      while (!sim.isComplete()) sim.runBatch();
+
+      const view = sim.primordia;
+      const theta: number[] = [];
+      for (let i = 0; i < view.count; i++) theta.push(view.theta(i));
+      const divergence = sim.computeDivergenceMetrics();
+      return {
+        steps: sim.getStepCount(),
+        theta,
+        divergenceMean: divergence.mean,
+        divergenceStdDev: divergence.stdDev,
+        divergenceCount: divergence.count
+      };
+    }
+  };
+}
+
+function presetCases(): GoldenCase[] {
+  return PRESETS.map((preset) => {
+    const cfg = cloneConfig(preset.config);
+    cfg.totalPrimordia = Math.min(cfg.totalPrimordia, GOLDEN_MAX_PRIMORDIA);
+    return runCase(`preset-${slug(preset.name)}`, cfg);
+  });
+}
+
+function kernelCases(): GoldenCase[] {
+  const params = defaultCustomParams();
+  const kernels: [string, KernelConfig][] = [
+    ['exp', { type: 'exp', A: 1, lambda: 0.18 }],
+    ['gaussian', { type: 'gaussian', A: 1, sigma: 0.15 }],
+    ['soft-power', { type: 'softPower', A: 0.01, p: 2, eps: 0.01 }],
+    ['hard-core-exp', { type: 'hardCoreExp', A: 1, lambda: 0.18, d0: 0.05 }],
+    ['elliptical-exp', { type: 'ellipticalExp', A: 1, lambda: 0.18, aspect: 1.5 }],
+    ['custom', { type: 'custom', expr: 'A * exp(-d / lambda)', params }],
+    ['custom-displacement', { type: 'custom', expr: 'A * exp(-sqrt(dx^2 + (dy / 1.5)^2) / lambda)', params }],
+    // Infinite inside d0: every such value becomes CUSTOM_BAD_PENALTY
+    ['custom-penalty', { type: 'custom', expr: 'd < d0 ? 1 / 0 : A * exp(-d / lambda)', params }]
+  ];
+  return kernels.map(([name, kernel]) => {
+    const cfg = defaultConfig();
+    cfg.totalPrimordia = kernel.type === 'custom' ? CUSTOM_KERNEL_CASE_PRIMORDIA : KERNEL_CASE_PRIMORDIA;
+    cfg.kernel = kernel;
+    return runCase(`kernel-${name}`, cfg);
+  });
+}
+
+function prngCase(): GoldenCase {
+  return {
+    name: 'prng',
+    compute: () => {
+      const uniform = mulberry32(12345);
+      const gaussian = new GaussianRNG(12345);
+      const uniforms: number[] = [];
+      const normals: number[] = [];
+      for (let i = 0; i < PRNG_SAMPLES; i++) {
+        uniforms.push(uniform());
+        normals.push(gaussian.next());
+      }
+      return { mulberry32: uniforms, gaussian: normals };
+    }
+  };
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+/**
+ * First difference beyond tolerance (relative, absolute below 1), or null.
+ * θ values are compared around the circle.
+ */
+function compareValues(key: string, actual: number | number[], expected: number | number[], tolerance: number): string | null {
+  const a = Array.isArray(actual) ? actual : [actual];
+  const e = Array.isArray(expected) ? expected : [expected];
+  if (a.length !== e.length) return `${key}: ${a.length} values, golden has ${e.length}`;
+  for (let i = 0; i < a.length; i++) {
+    let diff = Math.abs(a[i] - e[i]);
+    if (key === 'theta') diff = Math.min(diff, 2 * Math.PI - diff);
+    if (!(diff <= tolerance * Math.max(1, Math.abs(e[i])))) {
+      const where = Array.isArray(expected) ? `${key}[${i}]` : key;
+      return `${where} = ${a[i]}, golden ${e[i]}`;
+    }
+  }
+  return null;
+}
+
+function checkGolden(values: GoldenValues, golden: GoldenFile, tolerance: number): string | null {
+  for (const key of Object.keys(golden.values)) {
+    if (!(key in values)) return `${key}: missing`;
+    const diff = compareValues(key, values[key], golden.values[key], tolerance);
+    if (diff) return diff;
+  }
+  return null;
+}
+
+// =============================================================================
+// Checks (no golden file)
+// =============================================================================
+
+interface Check {
+  name: string;
+  /** Failure message, or null on success */
+  run: () => string | null;
+}
+
+/**
+ * A config edit and the error or warning (substring) it must produce;
+ * null expects a config that is valid without warnings.
+ */
+function validationCheck(
+  name: string,
+  edit: (cfg: SimConfig) => void,
+  expect: { error: string } | { warning: string } | null
+): Check {
+  return {
+    name: `validation-${name}`,
+    run: () => {
+      const cfg = defaultConfig();
+      edit(cfg);
+      const { valid, errors, warnings } = validateConfig(cfg);
+      if (expect === null) {
+        if (!valid || warnings.length > 0) return `expected valid, got ${[...errors, ...warnings].join('; ')}`;
+      } else if ('error' in expect) {
+        if (valid || !errors.some((e) => e.includes(expect.error))) {
+          return `expected error "${expect.error}", got ${errors.join('; ') || 'none'}`;
+        }
+      } else if (!valid || !warnings.some((w) => w.includes(expect.warning))) {
+        return `expected warning "${expect.warning}", got ${[...errors, ...warnings].join('; ') || 'none'}`;
+      }
+      return null;
+    }
+  };
+}
+
+function validationChecks(): Check[] {
+  const presetsValid: Check = {
+    name: 'validation-presets',
+    run: () => {
+      for (const preset of PRESETS) {
+        const { errors } = validateConfig(preset.config);
+        if (errors.length > 0) return `${preset.name}: ${errors.join('; ')}`;
+      }
+      return null;
+    }
+  };
+  const params = defaultCustomParams();
+
+  return [
+    presetsValid,
+    validationCheck('default', () => {}, null),
+    validationCheck('r-zero', (c) => { c.R = 0; }, { error: 'R must be > 0' }),
+    validationCheck('r-string', (c) => { Object.assign(c, { R: '0.5' }); }, { error: 'R must be > 0' }),
+    validationCheck('sigma-missing', (c) => { c.kernel = { type: 'gaussian', A: 1 } as KernelConfig; }, { error: 'sigma must be > 0' }),
+    validationCheck('maxr-at-r', (c) => { c.maxR = c.R; }, { error: 'maxR must be > R' }),
+    validationCheck('angle-samples', (c) => { c.angleSamples = 35; }, { error: 'angleSamples' }),
+    validationCheck('total-primordia', (c) => { c.totalPrimordia = 1; }, { error: 'totalPrimordia' }),
+    validationCheck('total-primordia-max', (c) => { c.totalPrimordia = 1e9; }, { error: 'totalPrimordia must be <=' }),
+    validationCheck('negative-v', (c) => { c.v = -0.02; }, { error: 'v must be > 0' }),
+    validationCheck('exponential-g', (c) => { c.drift = { law: 'exponential', G: 0 }; }, { error: 'G must be > 0' }),
+    validationCheck('drift-expr', (c) => { c.drift = { law: 'custom', expr: 'R +', G: 0.02 }; }, { error: 'Invalid drift expression' }),
+    validationCheck('drift-variable', (c) => { c.drift = { law: 'custom', expr: 'R * exp(g * t)', G: 0.02 }; }, { error: 'unknown variable g' }),
+    validationCheck('exp-lambda', (c) => { c.kernel = { type: 'exp', A: 1, lambda: 0 }; }, { error: 'lambda must be > 0' }),
+    validationCheck('hard-core-d0', (c) => { c.kernel = { type: 'hardCoreExp', A: 1, lambda: 0.18, d0: 1 }; }, { warning: 'd0 (1) >= R' }),
+    validationCheck('elliptical-aspect', (c) => { c.kernel = { type: 'ellipticalExp', A: 1, lambda: 0.18, aspect: 0 }; }, { error: 'aspect must be > 0' }),
+    validationCheck('custom-expr', (c) => { c.kernel = { type: 'custom', expr: '(d', params }; }, { error: 'Invalid expression' }),
+    validationCheck('custom-variable', (c) => { c.kernel = { type: 'custom', expr: 'A * exp(-d / lamda)', params }; }, { error: 'unknown variable lamda' }),
+    validationCheck('custom-sigma', (c) => { c.kernel = { type: 'custom', expr: 'd', params: { ...params, sigma: 0 } }; }, { error: 'sigma must be > 0' }),
+    validationCheck('custom-cutoff', (c) => {
+      c.kernel = { type: 'custom', expr: 'exp(-abs(dx) / lambda)', params };
+      c.fieldEval = { mode: 'cutoff', tolerance: 1e-6, compareExact: false };
+    }, { warning: 'no cutoff' }),
+    validationCheck('sphere-maxr', (c) => { c.geometry = { type: 'dome', shape: 'sphere', curvature: 1.1, metric: 'geodesic' }; }, { error: 'half a great circle' }),
+    validationCheck('threshold', (c) => { c.initiation = { mode: 'threshold', threshold: 0 }; }, { error: 'threshold must be > 0' }),
+    validationCheck('placement-grid', (c) => { c.placement = { solver: 'continuous', gridSamples: 4, tolerance: 1e-9 }; }, { error: 'Placement grid' }),
+    validationCheck('schedule-r', (c) => {
+      c.schedule = { enabled: true, variable: 'index', tracks: [{ param: 'R', type: 'keyframes', keyframes: [{ at: 0, value: 3 }] }] };
+    }, { error: 'R keyframes must stay < maxR' }),
+    validationCheck('schedule-twice', (c) => {
+      const track = { param: 'lambda' as const, type: 'keyframes' as const, keyframes: [{ at: 0, value: 0.18 }] };
+      c.schedule = { enabled: true, variable: 'index', tracks: [track, track] };
+    }, { warning: 'scheduled twice' }),
+    validationCheck('schedule-variable', (c) => {
+      c.schedule = { enabled: true, variable: 'index', tracks: [{ param: 'lambda', type: 'expression', expr: '0.3 - 0.001 * k' }] };
+    }, { error: 'unknown variable k' }),
+    validationCheck('intervention-step', (c) => { c.interventions = [{ step: -1, type: 'ablate', index: 0 }]; }, { error: 'Intervention step' }),
+    validationCheck('intervention-unborn', (c) => { c.interventions = [{ step: 5, type: 'ablate', index: 5000 }]; }, { warning: 'never born' }),
+    validationCheck('intervention-angle', (c) => { c.interventions = [{ step: 5, type: 'insert', thetaDeg: NaN }]; }, { error: 'insertion angle' }),
+    validationCheck('noise-sigma', (c) => { c.noise.sigmaThetaDeg = -1; }, { error: 'noise sigma' })
+  ];
+}
+
+/**
+ * A custom kernel evaluated at one point must give CUSTOM_BAD_PENALTY
+ * (or the expected finite value).
+ */
+function penaltyCheck(name: string, expr: string, at: [number, number, number], expected: number): Check {
+  return {
+    name: `penalty-${name}`,
+    run: () => {
+      const compiled = compileKernel({ type: 'custom', expr, params: defaultCustomParams() });
+      const [d, dx, dy] = at;
+      const value = compiled.fnDisplacement
+        ? compiled.fnDisplacement(d, dx, dy, 0, dy)
+        : compiled.fn(d);
+      return Object.is(value, expected) || Math.abs(value - expected) <= 1e-12 * Math.abs(expected)
+        ? null
+        : `${expr} at d = ${d}: ${value}, expected ${expected}`;
+    }
+  };
+}
+
+function penaltyChecks(): Check[] {
+  const { A, lambda } = defaultCustomParams();
+  const cutoffIgnoresPenalty: Check = {
+    name: 'penalty-cutoff',
+    run: () => {
+      // Penalties inside d0 must not stretch the cutoff to the whole range
+      const kernel: KernelConfig = {
+        type: 'custom',
+        expr: 'd < d0 ? 1 / 0 : A * exp(-d / lambda)',
+        params: defaultCustomParams()
+      };
+      const tolerance = 1e-6;
+      const cutoff = kernelCutoffDistance(kernel, compileKernel(kernel), tolerance, 10);
+      const exact = lambda * Math.log(A / tolerance);
+      return Math.abs(cutoff - exact) <= 0.05 ? null : `cutoff ${cutoff}, expected about ${exact}`;
+    }
+  };
+
+  return [
+    penaltyCheck('finite', 'A * exp(-d / lambda)', [lambda, 0, 0], A * Math.exp(-1)),
+    penaltyCheck('nan', 'log(d - 1)', [0.5, 0, 0], CUSTOM_BAD_PENALTY),
+    penaltyCheck('infinite', '1 / d', [0, 0, 0], CUSTOM_BAD_PENALTY),
+    penaltyCheck('throws', 'A * unknownVariable', [0.5, 0, 0], CUSTOM_BAD_PENALTY),
+    penaltyCheck('displacement', 'dx / 0', [0.5, 0.5, 0], CUSTOM_BAD_PENALTY),
+    cutoffIgnoresPenalty
+  ];
+}
+
+/**
+ * Run `cfg` to completion twice: once straight through, and once stopped
+ * after `stopAt` steps, saved as JSON, parsed and restored into a fresh
+ * simulator. θ, birth steps and the RNG state must match bit for bit.
+ */
+function continuationCheck(name: string, cfg: SimConfig, stopAt: number): Check {
+  const finish = (sim: Simulator) => {
+    while (!sim.isComplete()) sim.runBatch();
+    return sim.serialize();
+  };
+  const decode = (snapshot: SimulatorSnapshot) => ({
+    theta: decodeFloat64(snapshot.primordia.theta, snapshot.primordia.count),
+    birthStep: decodeFloat64(snapshot.primordia.birthStep, snapshot.primordia.count)
+  });
+
+  return {
+    name: `continuation-${name}`,
+    run: () => {
+      const straight = new Simulator();
+      straight.init(cfg);
+      straight.reset();
+      const expected = finish(straight);
+
+      const first = new Simulator();
+      first.init(cfg);
+      first.reset();
+      while (first.getStepCount() < stopAt && !first.isComplete()) first.step();
+      const resumed = new Simulator();
+      resumed.restore(parseSnapshot(JSON.stringify(first.serialize())));
+      const actual = finish(resumed);
+
+      if (actual.stepCount !== expected.stepCount) {
+        return `${actual.stepCount} steps, uninterrupted run took ${expected.stepCount}`;
+      }
+      const a = decode(actual);
+      const e = decode(expected);
+      if (a.theta.length !== e.theta.length) {
+        return `${a.theta.length} primordia, uninterrupted run has ${e.theta.length}`;
+      }
+      for (const key of ['theta', 'birthStep'] as const) {
+        const i = a[key].findIndex((x, j) => !Object.is(x, e[key][j]));
+        if (i >= 0) return `${key}[${i}] = ${a[key][i]}, uninterrupted ${e[key][i]}`;
+      }
+      if (JSON.stringify(actual.rng) !== JSON.stringify(expected.rng)) {
+        return `RNG state ${JSON.stringify(actual.rng)}, uninterrupted ${JSON.stringify(expected.rng)}`;
+      }
+      return null;
+    }
+  };
+}
+
+function continuationChecks(): Check[] {
+  const preset = (name: string) => cloneConfig(PRESETS.find((p) => p.name === name)!.config);
+  const withNoise = (cfg: SimConfig) => {
+    cfg.totalPrimordia = CONTINUATION_PRIMORDIA;
+    cfg.noise = {
+      ...cfg.noise,
+      enabled: true,
+      sigmaThetaDeg: 0.5,
+      seed: 7,
+      birthRadius: { enabled: true, sigma: 0.01 },
+      amplitude: { enabled: true, sigma: 0.1 },
+      timing: { enabled: cfg.initiation.mode === 'threshold', sigma: 0.1 }
+    };
+    return cfg;
+  };
+
+  const noise = withNoise(defaultConfig());
+  const threshold = withNoise(preset('Threshold initiation'));
+  threshold.noise.model = 'vonMises';
+  threshold.noise.kappa = 2000;
+  const schedule = withNoise(preset('Lambda ramp'));
+  const scheduleCutoff = withNoise(preset('Lambda ramp'));
+  scheduleCutoff.fieldEval = { mode: 'cutoff', tolerance: 1e-6, compareExact: false };
+  scheduleCutoff.noise.amplitude.enabled = false;
+  scheduleCutoff.schedule.tracks.push({ param: 'R', type: 'expression', expr: '1 + 0.0005 * n' });
+  const interventions = withNoise(defaultConfig());
+  interventions.interventions = [
+    { step: 40, type: 'ablate', index: 30 },
+    { step: 150, type: 'insert', thetaDeg: 90 }
+  ];
+
+  const stopAt = 100;
+  return [
+    continuationCheck('noise', noise, stopAt),
+    continuationCheck('threshold', threshold, stopAt),
+    continuationCheck('schedule', schedule, stopAt),
+    continuationCheck('schedule-cutoff', scheduleCutoff, stopAt),
+    continuationCheck('interventions', interventions, stopAt)
+  ];
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+function main(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      update: { type: 'boolean', default: false },
+      only: { type: 'string' },
+      tolerance: { type: 'string' },
+      dir: { type: 'string', default: 'golden' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const tolerance = values.tolerance === undefined ? 1e-9 : Number(values.tolerance);
+  if (positionals.length > 0 || !(tolerance >= 0)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const dir = values.dir!;
+  const selected = (name: string) => values.only === undefined || name.includes(values.only);
+  const cases = [...presetCases(), ...kernelCases(), prngCase()].filter((c) => selected(c.name));
+  const checks = [...validationChecks(), ...penaltyChecks(), ...continuationChecks()].filter((c) => selected(c.name));
+
+  let failed = 0;
+  const report = (name: string, failure: string | null, detail: string = '') => {
+    if (failure) failed++;
+    console.log(failure ? `FAIL  ${name}: ${failure}` : `ok    ${name}${detail}`);
+  };
+
+  if (values.update) mkdirSync(dir, { recursive: true });
+  for (const goldenCase of cases) {
+    const file = join(dir, `${goldenCase.name}.json`);
+    const start = Date.now();
+    const computed = goldenCase.compute();
+    const detail = ` (${Date.now() - start} ms)`;
+
+    if (values.update) {
+      const golden: GoldenFile = { name: goldenCase.name, config: goldenCase.config, values: computed };
+      writeFileSync(file, JSON.stringify(golden, null, 2) + '\n');
+      report(goldenCase.name, null, ` written to ${file}`);
+    } else if (!existsSync(file)) {
+      report(goldenCase.name, `no golden file ${file} (run with --update)`);
+    } else {
+      const golden = JSON.parse(readFileSync(file, 'utf8')) as GoldenFile;
+      report(goldenCase.name, checkGolden(computed, golden, tolerance), detail);
+    }
+  }
+
+  for (const check of checks) {
+    report(check.name, check.run());
+  }
+
+  const total = cases.length + checks.length;
+  console.log(failed === 0 ? `\nAll ${total} passed` : `\n${failed} of ${total} failed`);
+  return failed === 0 ? 0 : 1;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+}
@@ -2,18 +2,47 @@
  * Phyllotaxis Simulator V1 - Entry Point
  * 
  * Wires together all modules: simulator, UI, and renderer.
+ * The simulator runs in a Web Worker when available (see sim/host.ts).
  */
 
-import type { SimConfig } from './sim/config';
-import { Simulator } from './sim/simulator';
-import { UI } from './ui/ui';
+import { cloneConfig, type InterventionAction, type SimConfig } from './sim/config';
+import {
+  createSimulatorHost,
+  LocalSimulatorHost,
+  type SimulatorHost,
+  type TimelineFrame
+} from './sim/host';
+import { detectParastichies, type ParastichyResult } from './sim/parastichy';
+import { computeTessellation, type Tessellation } from './sim/voronoi';
+import { insertIntervention } from './sim/interventions';
+import type { SimulatorSnapshot } from './sim/snapshot';
+import type { SimStatus } from './sim/protocol';
+import type { PrimordiaView } from './sim/primordia';
+import { buildDataExport, formatDataCsv, formatDataJson, type DataFormat } from './sim/export';
+import {
+  sweepValues,
+  sweepRunConfig,
+  sweepPoint,
+  formatSweepCsv,
+  type SweepConfig,
+  type SweepResult
+} from './sim/sweep';
+import { DivergenceSeries, formatSeriesCsv } from './sim/series';
+import { UI, downloadBlob, downloadText } from './ui/ui';
 import {
   setupCanvas,
   getCanvasDimensions,
   render,
   renderMetrics,
-  renderFieldPlot
+  renderFieldPlot,
+  renderDivergenceSeries,
+  renderSweepPlot,
+  primordiumAt,
+  ringAngleAt,
+  type DrawingContext
 } from './render/render';
+import { SvgContext } from './render/svg';
+import { renderPng, zipFiles, frameName, type ImageSettings, type DrawingSize } from './render/image';
 
 import './style.css';
 
@@ -21,13 +50,15 @@ import './style.css';
 // Application State
 // =============================================================================
 
-let simulator: Simulator;
+let simulator: SimulatorHost;
 let ui: UI;
 let canvas: HTMLCanvasElement;
 let ctx: CanvasRenderingContext2D;
 
 let isRunning = false;
 let animationId: number | null = null;
+// True from the first requested frame until the loop exits (spans in-flight batches)
+let loopActive = false;
 let currentConfig: SimConfig;
 
 // Field plot state
@@ -35,47 +66,332 @@ let fieldPlotDirty = true;
 const FIELD_PLOT_INTERVAL = 10;
 let fieldPlotCounter = 0;
 
+// Divergence series state: zoomed index span (null = whole run), ending at
+// `end` or following the newest primordium (end null)
+const divergenceSeries = new DivergenceSeries();
+let divergenceZoom: { span: number; end: number | null } | null = null;
+const MIN_DIVERGENCE_SPAN = 10;
+
+// Timeline state: the earlier step on display instead of the live state
+let timelineFrame: TimelineFrame | null = null;
+let timelineStep = 0;                       // last step requested
+let timelineDirection: -1 | 0 | 1 = 0;      // playback (0 = stopped)
+let timelineAnimationId: number | null = null;
+let timelineBusy = false;                   // a frame request is in flight
+let timelinePending: number | null = null;  // step asked for while busy
+// Incremented to discard frames requested before the live state changed
+let timelineToken = 0;
+
+// Recording state: frames captured at multiples of `every` steps of the
+// current run, `next` being the step of the next one while active
+interface Recording {
+  settings: ImageSettings;
+  every: number;
+  next: number;
+  frames: Blob[];
+  active: boolean;
+}
+let recording: Recording | null = null;
+let recordingBusy = false;                  // frames are being captured
+
+// Overlay analyses of the state last drawn, kept until its status or
+// primordia change (undefined = not computed for it yet)
+interface PatternAnalysis {
+  status: SimStatus | null;
+  primordia: PrimordiaView;
+  count: number;
+  cylinderRadius: number | undefined;
+  parastichies: ParastichyResult | undefined;
+  tessellation: Tessellation | undefined;
+}
+let patternAnalysis: PatternAnalysis | null = null;
+
+// Schedule warnings of the live run already shown
+let shownWarnings = 0;
+
+// Sweep state
+let sweepResult: SweepResult | null = null;
+let sweepRange = { from: 0, to: 1 };
+// Incremented to cancel the running sweep
+let sweepToken = 0;
+
 // =============================================================================
 // Rendering
 // =============================================================================
 
 function doRender(): void {
-  render(canvas, ctx, simulator.primordia, currentConfig);
+  const shown = shownState();
+  drawPattern(ctx, getCanvasDimensions(canvas), shown.primordia, shown.status);
+
+  const liveStep = simulator.status?.stepCount ?? 0;
+  ui.setTimeline(timelineFrame ? timelineFrame.status.stepCount : liveStep, liveStep, !timelineFrame);
+
+  renderDivergencePlot();
+  if (recording) captureRecording().catch(reportError);
+
+  // New skipped scheduled values of the live run go to the status area
+  const warnings = simulator.status?.warnings ?? [];
+  if (warnings.length > shownWarnings) ui.showWarning(...warnings);
+  shownWarnings = warnings.length;
+}
+
+/** The state on display: the timeline frame, or the live run */
+function shownState(): { primordia: PrimordiaView; status: SimStatus | null } {
+  return timelineFrame ?? { primordia: simulator.primordia, status: simulator.status };
+}
+
+/**
+ * The overlay analyses of `primordia` at `status`, reused across animation
+ * frames: started afresh when the step, the view (live or timeline), the
+ * primordium count or the cylinder radius changes.
+ */
+function analysePattern(primordia: PrimordiaView, status: SimStatus | null): PatternAnalysis {
+  const cylinderRadius = currentConfig.geometry.type === 'cylinder' ? currentConfig.R : undefined;
+  const cached = patternAnalysis;
+  if (
+    cached && cached.status === status && cached.primordia === primordia &&
+    cached.count === primordia.count && cached.cylinderRadius === cylinderRadius
+  ) {
+    return cached;
+  }
+  patternAnalysis = { status, primordia, count: primordia.count, cylinderRadius, parastichies: undefined, tessellation: undefined };
+  return patternAnalysis;
+}
+
+/**
+ * Draw primordia with the overlays and metrics of the current render
+ * settings into `target`, filling `size` CSS pixels. The metrics come from
+ * `status` (the last status, or a timeline frame's).
+ */
+function drawPattern(
+  target: DrawingContext,
+  size: DrawingSize,
+  primordia: PrimordiaView,
+  status: SimStatus | null
+): void {
+  const analysis = analysePattern(primordia, status);
+  const parastichies = currentConfig.render.showParastichies
+    ? analysis.parastichies ??= detectParastichies(primordia, { cylinderRadius: analysis.cylinderRadius })
+    : null;
+  const tessellation = currentConfig.render.voronoi !== 'none'
+    ? analysis.tessellation ??= computeTessellation(primordia, { cylinderRadius: analysis.cylinderRadius })
+    : null;
+
+  render(size, target, primordia, currentConfig, parastichies, tessellation);
+
+  if (currentConfig.render.showMetrics && status) {
+    const { divergence, plastochron, fieldEval, placement } = status.metrics;
+    renderMetrics(
+      target, size.width, divergence, status.count, currentConfig.totalPrimordia,
+      {
+        parastichies,
+        plastochron: currentConfig.initiation.mode === 'threshold' ? plastochron : null,
+        fieldEval,
+        placement,
+        tessellation
+      }
+    );
+  }
+}
+
+/**
+ * Export what the main canvas shows as SVG, at the canvas's size on the
+ * parchment background.
+ */
+function onExportSvg(): void {
+  const size = getCanvasDimensions(canvas);
+  const svg = new SvgContext(size.width, size.height, parchment());
+  const shown = shownState();
+  drawPattern(svg, size, shown.primordia, shown.status);
+  downloadText(svg.toString(), `phyllotaxis-${shown.primordia.count}.svg`, 'image/svg+xml');
+}
+
+/**
+ * Save the primordia on display (live or timeline frame) with the run's
+ * config and a hash of the rows.
+ */
+async function onExportData(format: DataFormat): Promise<void> {
+  const { primordia, status } = shownState();
+  let text: string;
+  try {
+    const data = await buildDataExport(primordia, currentConfig, status?.stepCount ?? 0);
+    text = format === 'json' ? formatDataJson(data) : formatDataCsv(data);
+  } catch (err) {
+    reportError(err);
+    return;
+  }
+  const type = format === 'json' ? 'application/json' : 'text/csv';
+  downloadText(text, `phyllotaxis-data-${primordia.count}.${format}`, type);
+}
+
+/** The canvas background colour (--bg-canvas), or null if unset */
+function parchment(): string | null {
+  return getComputedStyle(document.documentElement).getPropertyValue('--bg-canvas').trim() || null;
+}
+
+// =============================================================================
+// Images and Recording
+// =============================================================================
+
+/**
+ * Save what the main canvas shows as a PNG of the requested pixel size.
+ */
+async function onSavePng(settings: ImageSettings): Promise<void> {
+  const shown = shownState();
+  let png: Blob;
+  try {
+    png = await renderImage(settings, shown.primordia, shown.status);
+  } catch (err) {
+    reportError(err);
+    return;
+  }
+  downloadBlob(png, `phyllotaxis-${shown.primordia.count}-${settings.width}x${settings.height}.png`);
+}
+
+function renderImage(settings: ImageSettings, primordia: PrimordiaView, status: SimStatus | null): Promise<Blob> {
+  const background = settings.background === 'parchment' ? parchment() : null;
+  return renderPng(
+    settings, getCanvasDimensions(canvas), background,
+    (target, size) => drawPattern(target, size, primordia, status)
+  );
+}
+
+/**
+ * Record a frame at every multiple of `every` steps from the current step
+ * on. Frames are drawn from the run's history, so they fall on exact steps
+ * however many steps a batch runs.
+ */
+function onStartRecording(settings: ImageSettings, every: number): void {
+  const step = simulator.status?.stepCount ?? 0;
+  recording = { settings, every, next: Math.ceil(step / every) * every, frames: [], active: true };
+  ui.setRecording(true, 0);
+  captureRecording().catch(reportError);
+}
+
+function onStopRecording(): void {
+  if (!recording) return;
+  recording.active = false;
+  ui.setRecording(false, recording.frames.length);
+}
 
-  // Metrics overlay
-  if (currentConfig.render.showMetrics) {
-    const metrics = simulator.computeDivergenceMetrics();
-    const { width } = getCanvasDimensions(canvas);
-    renderMetrics(ctx, width, metrics, simulator.primordia.length, currentConfig.totalPrimordia);
+/**
+ * A new run (Apply, Reset, loaded checkpoint) starts the recording over
+ * from step 0.
+ */
+function restartRecording(): void {
+  if (!recording?.active) return;
+  recording = { ...recording, next: 0, frames: [] };
+  ui.setRecording(true, 0);
+}
+
+/**
+ * Capture the frames due up to the live step, one at a time.
+ */
+async function captureRecording(): Promise<void> {
+  if (recordingBusy) return;
+  recordingBusy = true;
+  try {
+    for (;;) {
+      const current = recording;
+      const liveStep = simulator.status?.stepCount ?? 0;
+      if (!current?.active || current.next > liveStep) break;
+      const step = current.next;
+      current.next += current.every;
+      const frame = step < liveStep
+        ? await simulator.frameAt(step, false)
+        : { primordia: simulator.primordia, status: simulator.status };
+      if (recording !== current) continue;
+      const png = await renderImage(current.settings, frame.primordia, frame.status);
+      if (recording !== current) continue;
+      current.frames.push(png);
+      ui.setRecording(current.active, current.frames.length);
+    }
+  } finally {
+    recordingBusy = false;
+  }
+}
+
+/**
+ * Save the recorded frames as a zip of numbered PNGs.
+ */
+async function onSaveRecording(): Promise<void> {
+  if (!recording || recording.frames.length === 0) return;
+  const { frames, every } = recording;
+  let zip: Blob;
+  try {
+    zip = await zipFiles(frames.map((data, k) => ({ name: frameName(k), data })));
+  } catch (err) {
+    reportError(err);
+    return;
   }
+  downloadBlob(zip, `phyllotaxis-recording-${frames.length}x${every}.zip`);
 }
 
-function updateFieldPlotIfNeeded(): void {
+/**
+ * Index range of the divergence plot: the whole run, or the zoomed span.
+ */
+function divergenceRange(): { start: number; end: number } {
+  const count = divergenceSeries.length;
+  if (!divergenceZoom) return { start: 0, end: Math.max(count, 2) };
+  const end = divergenceZoom.end === null ? count : Math.min(divergenceZoom.end, count);
+  return { start: Math.max(0, end - divergenceZoom.span), end };
+}
+
+/**
+ * Bring the divergence series up to the primordia on display (appending
+ * only new ones) and redraw it.
+ */
+function renderDivergencePlot(): void {
+  if (!currentConfig.render.showDivergencePlot) return;
+  divergenceSeries.sync(timelineFrame ? timelineFrame.primordia : simulator.primordia);
+  renderDivergenceSeries(ui.divergencePlotCanvas, ui.divergencePlotCtx, divergenceSeries, divergenceRange());
+}
+
+async function updateFieldPlotIfNeeded(): Promise<void> {
+  // The timeline draws its frames' field values itself
+  if (timelineFrame) return;
   if (currentConfig.render.showFieldPlot && fieldPlotDirty) {
-    const fieldValues = simulator.getFieldValues();
-    renderFieldPlot(ui.fieldPlotCanvas, ui.fieldPlotCtx, fieldValues);
     fieldPlotDirty = false;
+    const fieldValues = await simulator.getFieldValues();
+    renderFieldPlot(ui.fieldPlotCanvas, ui.fieldPlotCtx, fieldValues);
   }
 }
 
+function renderSweep(): void {
+  renderSweepPlot(ui.sweepPlotCanvas, ui.sweepPlotCtx, sweepResult, sweepRange, ui.getSweepMode());
+}
+
+function reportError(err: unknown): void {
+  console.error('Simulation error:', err);
+  isRunning = false;
+  ui.setRunning(false);
+}
+
 // =============================================================================
 // Animation Loop
 // =============================================================================
 
-function animationFrame(): void {
+async function animationFrame(): Promise<void> {
+  animationId = null;
   if (!isRunning || simulator.isComplete()) {
-    if (simulator.isComplete()) {
+    if (simulator.isComplete() && isRunning) {
       isRunning = false;
       ui.setRunning(false);
       console.log('Simulation complete');
-      const metrics = simulator.computeDivergenceMetrics();
-      console.log(`Divergence angle (last ${metrics.count}): mean=${metrics.mean.toFixed(2)}°, stdDev=${metrics.stdDev.toFixed(2)}°`);
+      const metrics = simulator.status!.metrics.divergence;
+      console.log(`Divergence angle (last ${metrics.count}): circular mean=${metrics.circularMean.toFixed(2)}°, circular variance=${metrics.circularVariance.toExponential(2)}`);
     }
-    animationId = null;
+    loopActive = false;
     return;
   }
 
-  simulator.runBatch();
+  try {
+    await simulator.runBatch();
+  } catch (err) {
+    reportError(err);
+    loopActive = false;
+    return;
+  }
 
   // Field plot throttle during running
   if (currentConfig.render.showFieldPlot) {
@@ -83,7 +399,7 @@ function animationFrame(): void {
     if (fieldPlotCounter >= FIELD_PLOT_INTERVAL) {
       fieldPlotCounter = 0;
       fieldPlotDirty = true;
-      updateFieldPlotIfNeeded();
+      updateFieldPlotIfNeeded().catch(reportError);
     }
   }
 
@@ -91,27 +407,49 @@ function animationFrame(): void {
   animationId = requestAnimationFrame(animationFrame);
 }
 
+function stopLoop(): void {
+  // A frame waiting on a batch exits by itself once isRunning is false
+  if (animationId !== null) {
+    cancelAnimationFrame(animationId);
+    animationId = null;
+    loopActive = false;
+  }
+}
+
 // =============================================================================
 // UI Callbacks
 // =============================================================================
 
-function onApply(cfg: SimConfig): void {
+async function onApply(cfg: SimConfig): Promise<void> {
   currentConfig = cfg;
-  simulator.init(cfg);
-  simulator.reset();
   isRunning = false;
   ui.setRunning(false);
+  stopLoop();
+  leaveTimeline();
+  try {
+    await simulator.init(cfg);
+  } catch (err) {
+    reportError(err);
+    return;
+  }
   fieldPlotDirty = true;
   fieldPlotCounter = 0;
-  updateFieldPlotIfNeeded();
+  resetDivergencePlot();
+  restartRecording();
+  await updateFieldPlotIfNeeded();
   doRender();
 }
 
 function onRun(): void {
   if (simulator.isComplete()) return;
+  if (timelineFrame) {
+    leaveTimeline();
+    fieldPlotDirty = true;
+  }
   isRunning = true;
   ui.setRunning(true);
-  if (animationId === null) {
+  if (!loopActive) {
+    loopActive = true;
     animationId = requestAnimationFrame(animationFrame);
   }
 }
@@ -121,33 +459,322 @@ function onPause(): void {
   ui.setRunning(false);
 }
 
-function onStep(): void {
+async function onStep(): Promise<void> {
   if (simulator.isComplete()) return;
   isRunning = false;
   ui.setRunning(false);
-  simulator.step();
+  leaveTimeline();
+  try {
+    await simulator.step();
+  } catch (err) {
+    reportError(err);
+    return;
+  }
   fieldPlotDirty = true;
-  updateFieldPlotIfNeeded();
+  await updateFieldPlotIfNeeded();
   doRender();
 }
 
-function onReset(): void {
+async function onReset(): Promise<void> {
   isRunning = false;
   ui.setRunning(false);
-  if (animationId !== null) {
-    cancelAnimationFrame(animationId);
-    animationId = null;
+  stopLoop();
+  leaveTimeline();
+  try {
+    await simulator.reset();
+  } catch (err) {
+    reportError(err);
+    return;
   }
-  simulator.reset();
   fieldPlotDirty = true;
   fieldPlotCounter = 0;
-  updateFieldPlotIfNeeded();
+  resetDivergencePlot();
+  restartRecording();
+  await updateFieldPlotIfNeeded();
   doRender();
 }
 
 function onUpdateFieldPlot(): void {
   fieldPlotDirty = true;
-  updateFieldPlotIfNeeded();
+  updateFieldPlotIfNeeded().catch(reportError);
+}
+
+// =============================================================================
+// Checkpoints
+// =============================================================================
+
+async function onSaveCheckpoint(): Promise<void> {
+  let snapshot: SimulatorSnapshot;
+  try {
+    snapshot = await simulator.snapshot();
+  } catch (err) {
+    reportError(err);
+    return;
+  }
+  downloadText(
+    JSON.stringify(snapshot),
+    `phyllotaxis-checkpoint-${snapshot.primordia.count}.json`,
+    'application/json'
+  );
+}
+
+async function onLoadCheckpoint(snapshot: SimulatorSnapshot): Promise<void> {
+  isRunning = false;
+  ui.setRunning(false);
+  stopLoop();
+  leaveTimeline();
+  try {
+    await simulator.restore(snapshot);
+  } catch (err) {
+    reportError(err);
+    return;
+  }
+  currentConfig = cloneConfig(snapshot.config);
+  fieldPlotDirty = true;
+  fieldPlotCounter = 0;
+  resetDivergencePlot();
+  restartRecording();
+  await updateFieldPlotIfNeeded();
+  doRender();
+}
+
+// =============================================================================
+// Timeline
+// =============================================================================
+
+/**
+ * Show the run as it was after `step`; the live state once step reaches it.
+ * Requests are coalesced: while one is in flight only the latest step asked
+ * for is fetched next.
+ */
+async function showTimelineStep(step: number): Promise<void> {
+  timelineStep = step;
+  timelinePending = step;
+  if (timelineBusy) return;
+  timelineBusy = true;
+  try {
+    while (timelinePending !== null) {
+      const target = timelinePending;
+      timelinePending = null;
+      if (target >= (simulator.status?.stepCount ?? 0)) {
+        onTimelineLive();
+        break;
+      }
+      const token = timelineToken;
+      const showField = currentConfig.render.showFieldPlot;
+      const frame = await simulator.frameAt(target, showField);
+      if (token !== timelineToken) break;
+      timelineFrame = frame;
+      if (showField) renderFieldPlot(ui.fieldPlotCanvas, ui.fieldPlotCtx, frame.field);
+      doRender();
+    }
+  } finally {
+    timelineBusy = false;
+  }
+}
+
+function onTimelineScrub(step: number): void {
+  isRunning = false;
+  ui.setRunning(false);
+  stopTimelinePlayback();
+  showTimelineStep(step).catch(reportError);
+}
+
+/**
+ * Play the history forwards or backwards at the selected speed. Playing
+ * forwards from the live state starts over from step 0.
+ */
+function onTimelinePlay(direction: 1 | -1): void {
+  isRunning = false;
+  ui.setRunning(false);
+  if (!timelineFrame) {
+    timelineStep = direction === 1 ? 0 : simulator.status?.stepCount ?? 0;
+  }
+  timelineDirection = direction;
+  ui.setTimelinePlaying(direction);
+  if (timelineAnimationId === null) {
+    timelineAnimationId = requestAnimationFrame(timelinePlaybackFrame);
+  }
+}
+
+function timelinePlaybackFrame(): void {
+  timelineAnimationId = null;
+  if (timelineDirection === 0) return;
+  // Wait for the previous frame rather than queueing requests
+  if (!timelineBusy) {
+    const liveStep = simulator.status?.stepCount ?? 0;
+    const next = Math.min(liveStep, Math.max(0, timelineStep + timelineDirection * ui.getTimelineSpeed()));
+    const atEnd = timelineDirection === 1 ? next >= liveStep : next <= 0;
+    showTimelineStep(next).catch(reportError);
+    if (atEnd) {
+      stopTimelinePlayback();
+      return;
+    }
+  }
+  timelineAnimationId = requestAnimationFrame(timelinePlaybackFrame);
+}
+
+function stopTimelinePlayback(): void {
+  timelineDirection = 0;
+  ui.setTimelinePlaying(0);
+  if (timelineAnimationId !== null) {
+    cancelAnimationFrame(timelineAnimationId);
+    timelineAnimationId = null;
+  }
+}
+
+/**
+ * Drop the frame on display (and any in flight) without redrawing.
+ */
+function leaveTimeline(): void {
+  stopTimelinePlayback();
+  timelineToken++;
+  timelineFrame = null;
+}
+
+function onTimelineLive(): void {
+  leaveTimeline();
+  fieldPlotDirty = true;
+  updateFieldPlotIfNeeded().catch(reportError);
+  doRender();
+}
+
+// =============================================================================
+// Interventions
+// =============================================================================
+
+/**
+ * Click ablates the primordium under the pointer; Shift-click on the ring
+ * inserts one there. Applied interventions join the config so the run can
+ * be replayed.
+ */
+async function onCanvasClick(e: MouseEvent): Promise<void> {
+  if (timelineFrame) {
+    ui.showWarning('Interventions apply to the live state; return to it first.');
+    return;
+  }
+  const rect = canvas.getBoundingClientRect();
+  const x = e.clientX - rect.left;
+  const y = e.clientY - rect.top;
+
+  let action: InterventionAction | null = null;
+  if (e.shiftKey) {
+    const theta = ringAngleAt(canvas, simulator.primordia, currentConfig, x, y);
+    if (theta !== null) action = { type: 'insert', thetaDeg: theta * 180 / Math.PI };
+  } else {
+    const index = primordiumAt(canvas, simulator.primordia, currentConfig, x, y);
+    if (index >= 0) action = { type: 'ablate', index };
+  }
+  if (!action) return;
+
+  const intervention = await simulator.intervene(action);
+  if (!intervention) {
+    ui.showWarning('Intervention not applied (primordium inactive or run complete).');
+    return;
+  }
+  insertIntervention(currentConfig.interventions, intervention);
+  ui.setInterventions(currentConfig.interventions);
+
+  fieldPlotDirty = true;
+  await updateFieldPlotIfNeeded();
+  doRender();
+}
+
+function onClearInterventions(): void {
+  const cfg = cloneConfig(currentConfig);
+  cfg.interventions = [];
+  onApply(cfg).catch(reportError);
+}
+
+// =============================================================================
+// Parameter Sweep
+// =============================================================================
+
+/**
+ * Run the sweep one value at a time, plotting each run as it finishes.
+ * Runs share the host with the main simulation (queued in the worker).
+ */
+async function onRunSweep(base: SimConfig, sweep: SweepConfig): Promise<void> {
+  const token = ++sweepToken;
+  const result: SweepResult = { param: sweep.param, points: [] };
+  sweepResult = result;
+  sweepRange = { from: sweep.from, to: sweep.to };
+  ui.setSweepRunning(true, false);
+  renderSweep();
+
+  const values = sweepValues(sweep);
+  try {
+    for (let k = 0; k < values.length; k++) {
+      ui.setSweepProgress(`${sweep.param} = ${values[k].toPrecision(4)} (${k + 1} / ${values.length})`);
+      // Let the local host repaint and handle Stop between runs
+      if (!simulator.threaded) await new Promise((resolve) => setTimeout(resolve, 0));
+      const cfg = sweepRunConfig(base, sweep.param, values[k]);
+      const divergences = await simulator.runSweepPoint(cfg, sweep.late);
+      if (token !== sweepToken) return;
+      result.points.push(sweepPoint(values[k], divergences));
+      renderSweep();
+    }
+    ui.setSweepProgress(`Done: ${values.length} runs`);
+  } catch (err) {
+    if (token !== sweepToken) return;
+    console.error('Sweep error:', err);
+    ui.setSweepProgress(`Sweep failed: ${err instanceof Error ? err.message : err}`);
+  }
+  ui.setSweepRunning(false, result.points.length > 0);
+}
+
+function onStopSweep(): void {
+  sweepToken++;
+  const runs = sweepResult?.points.length ?? 0;
+  ui.setSweepProgress(`Stopped after ${runs} runs`);
+  ui.setSweepRunning(false, runs > 0);
+}
+
+function onExportSweep(): void {
+  if (!sweepResult || sweepResult.points.length === 0) return;
+  downloadText(formatSweepCsv(sweepResult), `phyllotaxis-sweep-${sweepResult.param}.csv`, 'text/csv');
+}
+
+// =============================================================================
+// Divergence Series
+// =============================================================================
+
+/**
+ * Zoom the index axis by `factor` about the index at `fraction` of the
+ * plot width. A span reaching the newest primordium keeps following it.
+ */
+function onDivergenceZoom(factor: number, fraction: number): void {
+  const count = divergenceSeries.length;
+  if (count < 2) return;
+  const { start, end } = divergenceRange();
+  const anchor = start + fraction * (end - start);
+  const span = Math.round(Math.max(MIN_DIVERGENCE_SPAN, (end - start) * factor));
+  if (span >= count) {
+    divergenceZoom = null;
+  } else {
+    const from = Math.max(0, Math.min(count - span, Math.round(anchor - fraction * span)));
+    divergenceZoom = { span, end: from + span >= count ? null : from + span };
+  }
+  renderDivergencePlot();
+}
+
+/**
+ * Forget the series and zoom of the previous run.
+ */
+function resetDivergencePlot(): void {
+  divergenceSeries.clear();
+  divergenceZoom = null;
+}
+
+function onDivergenceZoomReset(): void {
+  divergenceZoom = null;
+  renderDivergencePlot();
+}
+
+function onExportDivergence(): void {
+  divergenceSeries.sync(timelineFrame ? timelineFrame.primordia : simulator.primordia);
+  if (divergenceSeries.length < 2) return;
+  downloadText(formatSeriesCsv(divergenceSeries), `phyllotaxis-divergence-${divergenceSeries.length}.csv`, 'text/csv');
 }
 
 // =============================================================================
@@ -167,8 +794,8 @@ function main(): void {
   // Setup canvas
   setupCanvas(canvas, ctx);
 
-  // Create simulator
-  simulator = new Simulator();
+  // Create simulator (worker-backed when possible)
+  simulator = createSimulatorHost();
 
   // Create UI
   ui = new UI({
@@ -177,29 +804,64 @@ function main(): void {
     onPause,
     onStep,
     onReset,
-    onUpdateFieldPlot
+    onUpdateFieldPlot,
+    onRunSweep,
+    onStopSweep,
+    onExportSweep,
+    onExportDivergence,
+    onExportSvg,
+    onExportData,
+    onSavePng,
+    onStartRecording,
+    onStopRecording,
+    onSaveRecording,
+    onDivergenceZoom,
+    onDivergenceZoomReset,
+    onSweepModeChange: renderSweep,
+    onClearInterventions,
+    onSaveCheckpoint,
+    onLoadCheckpoint,
+    onTimelineScrub,
+    onTimelinePlay,
+    onTimelineStop: stopTimelinePlayback,
+    onTimelineLive
   });
 
   // Initialize UI and get initial config
   currentConfig = ui.init();
 
-  // Initialize simulator with config
-  simulator.init(currentConfig);
-  simulator.reset();
-
-  // Initial render
-  fieldPlotDirty = true;
-  updateFieldPlotIfNeeded();
-  doRender();
+  // Initialize simulator with config; fall back to the main thread if the
+  // worker fails to start
+  simulator.init(currentConfig)
+    .catch((err) => {
+      console.warn('Simulation worker failed, running on the main thread.', err);
+      simulator.dispose();
+      simulator = new LocalSimulatorHost();
+      return simulator.init(currentConfig);
+    })
+    .then(() => {
+      // Initial render
+      fieldPlotDirty = true;
+      doRender();
+      renderSweep();
+      return updateFieldPlotIfNeeded();
+    })
+    .catch(reportError);
+
+  canvas.addEventListener('click', (e) => {
+    onCanvasClick(e).catch(reportError);
+  });
 
   // Handle resize
   window.addEventListener('resize', () => {
     setupCanvas(canvas, ctx);
     doRender();
+    renderSweep();
   });
 
   // Set initial button states
   ui.setRunning(false);
+  ui.setTimelinePlaying(0);
 }
 
 // Run when DOM is ready
@@ -0,0 +1,188 @@
+/**
+ * Image export.
+ *
+ * Renders the pattern on an offscreen canvas of any pixel size and encodes it
+ * as PNG, and packages recorded frames as a zip of numbered PNGs. Everything
+ * is encoded in the browser; nothing is uploaded.
+ */
+
+import type { DrawingContext } from './render';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ImageBackground = 'parchment' | 'transparent';
+
+export interface ImageSettings {
+  width: number;              // pixels
+  height: number;
+  background: ImageBackground;
+}
+
+/** Largest side most browsers can allocate for a canvas */
+export const MAX_IMAGE_SIDE = 16384;
+
+/** Size of the drawing in CSS pixels (layout, point sizes and text) */
+export interface DrawingSize {
+  width: number;
+  height: number;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export function validateImageSettings(settings: ImageSettings): string[] {
+  const errors: string[] = [];
+  for (const [name, value] of [['width', settings.width], ['height', settings.height]] as const) {
+    if (!Number.isInteger(value) || value < 16 || value > MAX_IMAGE_SIDE) {
+      errors.push(`Image ${name} must be a whole number of pixels from 16 to ${MAX_IMAGE_SIDE}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Frames are captured at steps that are multiples of `every`.
+ */
+export function validateRecordInterval(every: number): string[] {
+  return Number.isInteger(every) && every >= 1 ? [] : ['Record interval must be a whole number of steps ≥ 1'];
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Draw an image of settings.width × settings.height pixels and encode it as
+ * PNG. The drawing keeps the proportions of `view` (the on-screen canvas, in
+ * CSS pixels): the image is drawn at the size that fits the view in both
+ * directions and scaled up, so points and text grow with the image as on a
+ * high-DPI screen. `draw` runs synchronously before the first await.
+ *
+ * @param background  Colour behind the pattern (parchment), or null
+ */
+export async function renderPng(
+  settings: ImageSettings,
+  view: DrawingSize,
+  background: string | null,
+  draw: (ctx: DrawingContext, size: DrawingSize) => void
+): Promise<Blob> {
+  const { width, height } = settings;
+  const scale = Math.min(width / view.width, height / view.height);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get an offscreen 2D context');
+
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  draw(ctx, { width: width / scale, height: height / scale });
+
+  // Background behind the drawing (render() clears its area first)
+  if (background) {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  return canvas.convertToBlob({ type: 'image/png' });
+}
+
+// =============================================================================
+// Frame Sequences
+// =============================================================================
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Package files as a zip archive. Entries are stored uncompressed: PNGs are
+ * compressed already.
+ */
+export async function zipFiles(entries: ZipEntry[], date: Date = new Date()): Promise<Blob> {
+  const encoder = new TextEncoder();
+  // MS-DOS date and time of every entry
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+  const parts: BlobPart[] = [];
+  const directory: ArrayBuffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = new Uint8Array(await entry.data.arrayBuffer());
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);   // local file header
+    local.setUint16(4, 20, true);           // version needed (2.0)
+    local.setUint16(6, 0x0800, true);       // UTF-8 names
+    local.setUint16(8, 0, true);            // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, data);
+
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, 0x02014b50, true); // central directory header
+    central.setUint16(4, 20, true);         // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, day, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);    // offset of the local header
+    new Uint8Array(central.buffer).set(name, 46);
+    directory.push(central.buffer);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const directorySize = directory.reduce((sum, record) => sum + record.byteLength, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);       // end of central directory
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' });
+}
+
+/**
+ * Zip entry name of recorded frame k: frame-00000.png, frame-00001.png, …
+ * (numbered for ffmpeg -i frame-%05d.png).
+ */
+export function frameName(k: number): string {
+  return `frame-${String(k).padStart(5, '0')}.png`;
+}
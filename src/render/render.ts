@@ -1,10 +1,48 @@
 /**
  * Canvas rendering for the Phyllotaxis Simulator.
- * DPR-aware, with support for field plot visualization.
+ * DPR-aware, with support for field plot visualization. The pattern and its
+ * metrics overlay draw through DrawingContext, which SvgContext also
+ * implements for vector export.
  */
 
-import type { SimConfig } from '../sim/config';
-import type { Primordium } from '../sim/simulator';
+import type { SimConfig, VoronoiColoring } from '../sim/config';
+import type { PlastochronMetrics, FieldEvalStats, PlacementStats } from '../sim/simulator';
+import type { PrimordiaView } from '../sim/primordia';
+import type { ParastichyResult, ParastichyFamily } from '../sim/parastichy';
+import type { Tessellation, VoronoiCell } from '../sim/voronoi';
+import type { SweepResult } from '../sim/sweep';
+import { NOBLE_ANGLES, circularStdDev, type DivergenceMetrics } from '../sim/angles';
+import { ROLLING_WINDOW, type DivergenceSeries } from '../sim/series';
+import { compileDome, type CompiledDome } from '../sim/dome';
+
+/** Stroke colours for the spiral families (botanical green / gold accent) */
+const PARASTICHY_COLORS = {
+  cw: 'rgba(55, 93, 66, 0.75)',
+  ccw: 'rgba(201, 162, 39, 0.85)'
+};
+
+// =============================================================================
+// Drawing Context
+// =============================================================================
+
+/**
+ * The part of the canvas 2D API that render() and renderMetrics() use, with
+ * optional hooks that group what follows into a named layer (see SvgContext).
+ */
+export type DrawingContext = Pick<
+  CanvasRenderingContext2D,
+  'beginPath' | 'moveTo' | 'lineTo' | 'closePath' | 'arc' | 'fill' | 'stroke' |
+  'fillRect' | 'fillText' | 'clearRect' | 'fillStyle' | 'strokeStyle' | 'lineWidth' | 'font'
+> & {
+  beginLayer?: (id: string) => void;
+  endLayer?: () => void;
+};
+
+function layer(ctx: DrawingContext, id: string, draw: () => void): void {
+  ctx.beginLayer?.(id);
+  draw();
+  ctx.endLayer?.();
+}
 
 // =============================================================================
 // Canvas Setup
@@ -34,97 +72,582 @@ export function getCanvasDimensions(canvas: HTMLCanvasElement): { width: number;
   };
 }
 
+// =============================================================================
+// Layout
+// =============================================================================
+
+/**
+ * Maps primordium i at radius r to canvas coordinates for the current geometry.
+ */
+interface Layout {
+  toX: (i: number, r: number) => number;
+  toY: (i: number, r: number) => number;
+  /** Pixels per model length unit */
+  scale: number;
+  /** Horizontal period in pixels (unrolled cylinder seam), or 0 if none */
+  wrapWidth: number;
+  /** Canvas position of the point at angle theta on the generative ring */
+  ringPoint: (theta: number) => { x: number; y: number };
+  /** Canvas position of a point in the analysis plane of parastichy and Voronoi
+   *  analysis: (r cos θ, r sin θ), or (arc, height) on the cylinder */
+  planePoint: (x: number, y: number) => { x: number; y: number };
+  /** Stroke the generative ring */
+  drawRing: (ctx: DrawingContext) => void;
+  /** Distance toward the viewer (draw order), for projected 3D layouts */
+  nearness?: (i: number, r: number) => number;
+  /** True if the primordium is on the far side of the surface */
+  backFacing?: (i: number, r: number) => boolean;
+}
+
+/**
+ * Top-down view of the planar apex, centred on the canvas.
+ */
+function diskLayout(
+  primordia: PrimordiaView,
+  width: number,
+  height: number,
+  R: number,
+  maxRadius: number
+): Layout {
+  const scale = Math.min(width, height) * 0.45 / maxRadius;
+  const cx = width / 2;
+  const cy = height / 2;
+  return {
+    toX: (i, r) => cx + r * primordia.cos(i) * scale,
+    toY: (i, r) => cy + r * primordia.sin(i) * scale,
+    scale,
+    wrapWidth: 0,
+    ringPoint: (theta) => ({ x: cx + R * Math.cos(theta) * scale, y: cy + R * Math.sin(theta) * scale }),
+    planePoint: (x, y) => ({ x: cx + x * scale, y: cy + y * scale }),
+    drawRing: (ctx) => {
+      ctx.beginPath();
+      ctx.arc(cx, cy, R * scale, 0, 2 * Math.PI);
+      ctx.stroke();
+    }
+  };
+}
+
+/**
+ * Unrolled (θ, z) lattice of the cylinder: θ runs left to right over one
+ * circumference, height grows upward from the generative ring at the bottom.
+ * Arc length and height share one scale so the lattice is undistorted.
+ */
+function cylinderLayout(
+  primordia: PrimordiaView,
+  width: number,
+  height: number,
+  R: number,
+  maxRadius: number
+): Layout {
+  const circumference = 2 * Math.PI * R;
+  const maxHeight = Math.max(maxRadius - R, 1e-9);
+  const scale = Math.min(width * 0.9 / circumference, height * 0.9 / maxHeight);
+  const left = (width - circumference * scale) / 2;
+  const bottom = (height + maxHeight * scale) / 2;
+  return {
+    toX: (i) => left + R * primordia.theta(i) * scale,
+    toY: (_i, r) => bottom - (r - R) * scale,
+    scale,
+    wrapWidth: circumference * scale,
+    ringPoint: (theta) => ({ x: left + R * theta * scale, y: bottom }),
+    planePoint: (x, y) => ({ x: left + x * scale, y: bottom - y * scale }),
+    drawRing: (ctx) => {
+      const right = left + circumference * scale;
+      const top = bottom - maxHeight * scale;
+      ctx.beginPath();
+      ctx.moveTo(left, bottom);
+      ctx.lineTo(right, bottom);
+      // Seam: θ = 0 and θ = 2π are the same line on the stem
+      ctx.moveTo(left, bottom);
+      ctx.lineTo(left, top);
+      ctx.moveTo(right, bottom);
+      ctx.lineTo(right, top);
+      ctx.stroke();
+    }
+  };
+}
+
+/**
+ * Orthographic view of the dome, tipped toward the viewer by `tiltDeg`
+ * (0 looks down the axis, 90 from the side). Screen x is the model x; screen
+ * y mixes y with depth below the tip, so the tip sits above the flanks.
+ */
+function domeLayout(
+  primordia: PrimordiaView,
+  width: number,
+  height: number,
+  R: number,
+  radii: Float64Array,
+  dome: CompiledDome,
+  tiltDeg: number
+): Layout {
+  const tilt = Math.max(0, Math.min(90, tiltDeg)) * Math.PI / 180;
+  const cosT = Math.cos(tilt);
+  const sinT = Math.sin(tilt);
+  const project = (rho: number, depth: number, sinTheta: number) => rho * sinTheta * cosT + depth * sinT;
+
+  // Projected extents over the ring and every primordium
+  let maxX = dome.rho(R);
+  let minY = Infinity;
+  let maxY = -Infinity;
+  const extend = (r: number) => {
+    const rho = dome.rho(r);
+    const depth = dome.depth(r);
+    if (rho > maxX) maxX = rho;
+    minY = Math.min(minY, project(rho, depth, -1));
+    maxY = Math.max(maxY, project(rho, depth, 1));
+  };
+  extend(R);
+  for (let i = 0; i < radii.length; i++) extend(radii[i]);
+
+  const scale = Math.min(width * 0.9 / (2 * Math.max(maxX, 1e-9)), height * 0.9 / Math.max(maxY - minY, 1e-9));
+  const cx = width / 2;
+  const cy = height / 2 - (minY + maxY) / 2 * scale;
+  const ringRho = dome.rho(R);
+  const ringDepth = dome.depth(R);
+  const ringPoint = (theta: number) => ({
+    x: cx + ringRho * Math.cos(theta) * scale,
+    y: cy + project(ringRho, ringDepth, Math.sin(theta)) * scale
+  });
+
+  // The plane point (s cos θ, s sin θ) lies at arc length s from the tip
+  const planePoint = (x: number, y: number) => {
+    const s = Math.hypot(x, y);
+    const cos = s > 0 ? x / s : 1;
+    const sin = s > 0 ? y / s : 0;
+    const rho = dome.rho(s);
+    return { x: cx + rho * cos * scale, y: cy + project(rho, dome.depth(s), sin) * scale };
+  };
+
+  return {
+    toX: (i, r) => cx + dome.rho(r) * primordia.cos(i) * scale,
+    toY: (i, r) => cy + project(dome.rho(r), dome.depth(r), primordia.sin(i)) * scale,
+    scale,
+    wrapWidth: 0,
+    ringPoint,
+    planePoint,
+    drawRing: (ctx) => {
+      const segments = 128;
+      ctx.beginPath();
+      for (let k = 0; k <= segments; k++) {
+        const { x, y } = ringPoint((2 * Math.PI * k) / segments);
+        if (k === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    },
+    // The viewer looks along (0, -sin t, cos t) in (x, y, depth)
+    nearness: (i, r) => dome.rho(r) * primordia.sin(i) * sinT - dome.depth(r) * cosT,
+    backFacing: (i, r) => {
+      const slope = dome.slope(r);
+      return Math.sin(slope) * primordia.sin(i) * sinT + Math.cos(slope) * cosT < 0;
+    }
+  };
+}
+
+/**
+ * Layout for the configured geometry, fitted to the canvas and the current
+ * radii.
+ */
+function createLayout(
+  primordia: PrimordiaView,
+  cfg: SimConfig,
+  width: number,
+  height: number,
+  radii: Float64Array,
+  maxRadius: number
+): Layout {
+  switch (cfg.geometry.type) {
+    case 'disk':
+      return diskLayout(primordia, width, height, cfg.R, maxRadius);
+    case 'cylinder':
+      return cylinderLayout(primordia, width, height, cfg.R, maxRadius);
+    case 'dome':
+      return domeLayout(primordia, width, height, cfg.R, radii, compileDome(cfg.geometry), cfg.render.tiltDeg);
+  }
+}
+
+/**
+ * Radii once per frame (derived from age), and the largest for scaling.
+ */
+function frameRadii(primordia: PrimordiaView, R: number): { radii: Float64Array; maxRadius: number } {
+  const radii = new Float64Array(primordia.count);
+  let maxRadius = R;
+  for (let i = 0; i < radii.length; i++) {
+    radii[i] = primordia.radius(i);
+    if (radii[i] > maxRadius) maxRadius = radii[i];
+  }
+  return { radii, maxRadius };
+}
+
+/**
+ * Drawn radius of primordium i in pixels.
+ * Scale point size by distance from center (natural growth simulation):
+ * points at center are 20% of base size, points at edge 100%.
+ * With a size law, the organ is drawn at its actual size instead.
+ */
+function drawnRadius(
+  primordia: PrimordiaView,
+  cfg: SimConfig,
+  layout: Layout,
+  i: number,
+  r: number,
+  maxRadius: number
+): number {
+  const baseRadius = cfg.render.pointRadius;
+  if (cfg.size.law !== 'none') {
+    return Math.max(0.5, primordia.size(i) * layout.scale);
+  }
+  if (cfg.render.scaleByDistance) {
+    const t = r / maxRadius; // 0 at center, 1 at edge
+    return baseRadius * (0.2 + 0.8 * t);
+  }
+  return baseRadius;
+}
+
 // =============================================================================
 // Main Render
 // =============================================================================
 
 /**
- * Render primordia on canvas.
+ * Render primordia on canvas, with optional Voronoi cell layer and
+ * parastichy overlay, filling an area of `size` CSS pixels (see
+ * getCanvasDimensions).
+ * Disk geometry is drawn top-down; cylinder geometry as an unrolled lattice;
+ * dome geometry in a tilted orthographic projection, far side first and faded.
  */
 export function render(
-  canvas: HTMLCanvasElement,
-  ctx: CanvasRenderingContext2D,
-  primordia: Primordium[],
-  cfg: SimConfig
+  size: { width: number; height: number },
+  ctx: DrawingContext,
+  primordia: PrimordiaView,
+  cfg: SimConfig,
+  parastichies: ParastichyResult | null = null,
+  tessellation: Tessellation | null = null
 ): void {
-  const { width, height } = getCanvasDimensions(canvas);
+  const { width, height } = size;
 
   // Clear with transparent/parchment background to let CSS show through
   ctx.clearRect(0, 0, width, height);
 
-  if (primordia.length === 0) return;
+  const count = primordia.count;
+  if (count === 0) return;
+
+  const { radii, maxRadius } = frameRadii(primordia, cfg.R);
+  const layout = createLayout(primordia, cfg, width, height, radii, maxRadius);
 
-  // Find max radius for scaling
-  let maxRadius = cfg.R;
-  for (const p of primordia) {
-    if (p.r > maxRadius) maxRadius = p.r;
+  // Voronoi cells under the primordia
+  if (tessellation && cfg.render.voronoi !== 'none') {
+    const coloring = cfg.render.voronoi;
+    layer(ctx, 'voronoi', () => drawTessellation(ctx, tessellation, layout, coloring));
   }
 
-  const scale = Math.min(width, height) * 0.45 / maxRadius;
-  const cx = width / 2;
-  const cy = height / 2;
+  // Projected layouts draw back to front
+  const order = Array.from({ length: count }, (_, i) => i);
+  const { nearness, backFacing } = layout;
+  if (nearness) {
+    const near = Float64Array.from(order, (i) => nearness(i, radii[i]));
+    order.sort((a, b) => near[a] - near[b]);
+  }
 
-  // Draw primordia colored by birth order
-  const baseRadius = cfg.render.pointRadius;
-  const scaleByDist = cfg.render.scaleByDistance;
-  
-  for (let i = 0; i < primordia.length; i++) {
-    const p = primordia[i];
-    const x = cx + p.r * p.ct * scale;
-    const y = cy + p.r * p.st * scale;
-    const hue = (i * 360) / cfg.totalPrimordia;
-
-    // Scale point size by distance from center (natural growth simulation)
-    // Points at center: 20% of base size, points at edge: 100%
-    let pointRadius = baseRadius;
-    if (scaleByDist) {
-      const t = p.r / maxRadius; // 0 at center, 1 at edge
-      pointRadius = baseRadius * (0.2 + 0.8 * t);
+  // Draw primordia colored by birth order; ablated ones as outlines
+  layer(ctx, 'primordia', () => {
+    for (const i of order) {
+      const x = layout.toX(i, radii[i]);
+      const y = layout.toY(i, radii[i]);
+      const hue = (i * 360) / cfg.totalPrimordia;
+      const color = backFacing?.(i, radii[i])
+        ? `hsla(${hue}, 70%, 50%, 0.3)`
+        : `hsl(${hue}, 70%, 50%)`;
+
+      ctx.beginPath();
+      ctx.arc(x, y, drawnRadius(primordia, cfg, layout, i, radii[i], maxRadius), 0, 2 * Math.PI);
+      if (primordia.ablated(i)) {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+      } else {
+        ctx.fillStyle = color;
+        ctx.fill();
+      }
     }
-
-    ctx.beginPath();
-    ctx.arc(x, y, pointRadius, 0, 2 * Math.PI);
-    ctx.fillStyle = `hsl(${hue}, 70%, 50%)`;
-    ctx.fill();
-  }
+  });
 
   // Draw active ring
   if (cfg.render.showRing) {
+    layer(ctx, 'ring', () => {
+      ctx.strokeStyle = 'rgba(201, 162, 39, 0.5)'; // Gold accent
+      ctx.lineWidth = 1;
+      layout.drawRing(ctx);
+    });
+  }
+
+  // Draw spiral families
+  if (parastichies) {
+    layer(ctx, 'parastichies', () => {
+      for (const family of [parastichies.cw, parastichies.ccw]) {
+        if (family) layer(ctx, `parastichies-${family.chirality}`, () => drawFamily(ctx, radii, family, layout));
+      }
+    });
+  }
+}
+
+/**
+ * Draw one parastichy family as polylines through its primordia.
+ * Segments crossing the cylinder seam are skipped.
+ */
+function drawFamily(
+  ctx: DrawingContext,
+  radii: Float64Array,
+  family: ParastichyFamily,
+  layout: Layout
+): void {
+  ctx.beginPath();
+  for (const spiral of family.spirals) {
+    let prevX = 0;
+    for (let k = 0; k < spiral.length; k++) {
+      const i = spiral[k];
+      const x = layout.toX(i, radii[i]);
+      const y = layout.toY(i, radii[i]);
+      if (k === 0 || (layout.wrapWidth > 0 && Math.abs(x - prevX) > layout.wrapWidth / 2)) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+      prevX = x;
+    }
+  }
+  ctx.strokeStyle = PARASTICHY_COLORS[family.chirality];
+  ctx.lineWidth = 1.5;
+  ctx.stroke();
+}
+
+/** Fill colours by number of sides; others use the default */
+const SIDE_COLORS: Record<number, string> = {
+  5: 'rgba(59, 110, 165, 0.45)',   // pentagon defect
+  6: 'rgba(55, 93, 66, 0.12)',
+  7: 'rgba(181, 71, 58, 0.45)'     // heptagon defect
+};
+const OTHER_SIDES_COLOR = 'rgba(120, 60, 140, 0.45)';
+
+/**
+ * Draw the closed Voronoi cells, filled by the chosen quantity. Area runs
+ * blue (small) to gold (large) between the 5th and 95th percentiles; packing
+ * over 0.5–1 of hexagonal.
+ */
+function drawTessellation(
+  ctx: DrawingContext,
+  tessellation: Tessellation,
+  layout: Layout,
+  coloring: VoronoiColoring
+): void {
+  const { cells } = tessellation;
+  let lo = 0.5;
+  let hi = 1;
+  if (coloring === 'area' && cells.length > 0) {
+    const areas = cells.map((cell) => cell.area).sort((a, b) => a - b);
+    lo = areas[Math.floor(0.05 * (areas.length - 1))];
+    hi = areas[Math.ceil(0.95 * (areas.length - 1))];
+  }
+  const ramp = (value: number) => {
+    const t = hi > lo ? Math.max(0, Math.min(1, (value - lo) / (hi - lo))) : 0.5;
+    return `hsla(${220 - 175 * t}, 55%, 50%, 0.4)`;
+  };
+  const fill = (cell: VoronoiCell): string => {
+    switch (coloring) {
+      case 'area': return ramp(cell.area);
+      case 'packing': return ramp(cell.packing);
+      default: return SIDE_COLORS[cell.sides] ?? OTHER_SIDES_COLOR;
+    }
+  };
+
+  ctx.lineWidth = 0.5;
+  ctx.strokeStyle = 'rgba(31, 42, 34, 0.35)';
+  for (const cell of cells) {
+    const { vertices } = cell;
     ctx.beginPath();
-    ctx.arc(cx, cy, cfg.R * scale, 0, 2 * Math.PI);
-    ctx.strokeStyle = 'rgba(201, 162, 39, 0.5)'; // Gold accent
-    ctx.lineWidth = 1;
+    for (let k = 0; k < vertices.length; k += 2) {
+      const { x, y } = layout.planePoint(vertices[k], vertices[k + 1]);
+      if (k === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+    ctx.fillStyle = fill(cell);
+    ctx.fill();
     ctx.stroke();
   }
 }
 
+// =============================================================================
+// Hit Testing
+// =============================================================================
+
+/** Minimum pick radius in pixels, so small primordia stay clickable */
+const PICK_RADIUS = 4;
+
+/** Distance in pixels within which a click counts as on the ring */
+const RING_PICK_DISTANCE = 8;
+
+/**
+ * Index of the primordium drawn at canvas point (x, y) in CSS pixels, or -1.
+ * Ablated primordia are ignored; overlapping hits go to the nearest centre.
+ */
+export function primordiumAt(
+  canvas: HTMLCanvasElement,
+  primordia: PrimordiaView,
+  cfg: SimConfig,
+  x: number,
+  y: number
+): number {
+  const { width, height } = getCanvasDimensions(canvas);
+  const { radii, maxRadius } = frameRadii(primordia, cfg.R);
+  const layout = createLayout(primordia, cfg, width, height, radii, maxRadius);
+
+  let best = -1;
+  let bestDistance = Infinity;
+  for (let i = 0; i < primordia.count; i++) {
+    if (primordia.ablated(i)) continue;
+    const distance = Math.hypot(layout.toX(i, radii[i]) - x, layout.toY(i, radii[i]) - y);
+    const reach = Math.max(PICK_RADIUS, drawnRadius(primordia, cfg, layout, i, radii[i], maxRadius));
+    if (distance <= reach && distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Angle in [0, 2π) of the generative ring point nearest canvas point (x, y),
+ * or null if the ring is more than a few pixels away.
+ */
+export function ringAngleAt(
+  canvas: HTMLCanvasElement,
+  primordia: PrimordiaView,
+  cfg: SimConfig,
+  x: number,
+  y: number
+): number | null {
+  const { width, height } = getCanvasDimensions(canvas);
+  const { radii, maxRadius } = frameRadii(primordia, cfg.R);
+  const layout = createLayout(primordia, cfg, width, height, radii, maxRadius);
+
+  // Coarse scan, then refine around the best sample
+  const samples = 720;
+  let step = (2 * Math.PI) / samples;
+  let bestTheta = 0;
+  let bestDistance = Infinity;
+  const consider = (theta: number) => {
+    const point = layout.ringPoint(theta);
+    const distance = Math.hypot(point.x - x, point.y - y);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestTheta = theta;
+    }
+  };
+  for (let k = 0; k < samples; k++) consider(k * step);
+  for (let pass = 0; pass < 3; pass++) {
+    const centre = bestTheta;
+    step /= 10;
+    for (let k = -10; k <= 10; k++) consider(centre + k * step);
+  }
+
+  if (bestDistance > RING_PICK_DISTANCE) return null;
+  const theta = bestTheta % (2 * Math.PI);
+  return theta < 0 ? theta + 2 * Math.PI : theta;
+}
+
 // =============================================================================
 // Metrics Overlay
 // =============================================================================
 
+/**
+ * Optional lines of the metrics overlay (omitted when null or absent).
+ */
+export interface MetricsExtras {
+  parastichies?: ParastichyResult | null;
+  plastochron?: PlastochronMetrics | null;
+  fieldEval?: FieldEvalStats | null;
+  placement?: PlacementStats | null;
+  tessellation?: Tessellation | null;
+}
+
 /**
  * Render divergence metrics overlay.
  */
 export function renderMetrics(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   _width: number,
-  metrics: { mean: number; stdDev: number; count: number },
+  metrics: DivergenceMetrics,
   primordiaCount: number,
-  totalPrimordia: number
+  totalPrimordia: number,
+  extras: MetricsExtras = {}
 ): void {
+  const { parastichies, plastochron, fieldEval, placement, tessellation } = extras;
+
   ctx.font = '12px monospace';
   ctx.fillStyle = 'rgba(31, 42, 34, 0.85)'; // Deep ink color for readability on parchment
 
   const lines = [
     `Primordia: ${primordiaCount} / ${totalPrimordia}`,
-    `Divergence (last ${metrics.count}): ${metrics.mean.toFixed(2)}° ± ${metrics.stdDev.toFixed(2)}°`
+    `Divergence (last ${metrics.count}): ${metrics.circularMean.toFixed(2)}° ` +
+      `(circ. var ${metrics.circularVariance.toExponential(1)}, ${metrics.chirality} ${metrics.folded.toFixed(2)}°)`
   ];
 
-  let y = 20;
-  for (const line of lines) {
-    ctx.fillText(line, 10, y);
-    y += 16;
+  if (metrics.count > 0) {
+    const [a0, ...rest] = metrics.continuedFraction;
+    lines.push(`Continued fraction: [${a0}; ${rest.join(', ')}]`);
+  }
+
+  if (metrics.noble) {
+    const { name, degrees, deviation, series } = metrics.noble;
+    lines.push(
+      `Nearest noble: ${name} ${degrees.toFixed(2)}° (Δ ${deviation >= 0 ? '+' : ''}${deviation.toFixed(3)}°) ` +
+      `→ ${series.join(', ')}, …`
+    );
+  }
+
+  if (plastochron) {
+    lines.push(
+      `Plastochron (last ${plastochron.count}): ${plastochron.mean.toFixed(2)} ± ${plastochron.stdDev.toFixed(2)}` +
+      (plastochron.simultaneous > 0 ? ` (${plastochron.simultaneous} simultaneous)` : '')
+    );
+  }
+
+  if (parastichies) {
+    const { pair, cw, ccw } = parastichies;
+    lines.push(pair
+      ? `Parastichies: ${pair[0]}:${pair[1]} (cw ${cw!.n}, ccw ${ccw!.n})`
+      : 'Parastichies: not detected');
   }
+
+  if (tessellation) {
+    const { cells, meanArea, areaCV, pentagons, heptagons, defects, packingEfficiency } = tessellation.stats;
+    lines.push(
+      `Voronoi (${cells} cells): area ${meanArea.toExponential(2)} ± ${(areaCV * 100).toFixed(0)}%, ` +
+      `5/7 sides ${pentagons}/${heptagons} (${defects} defects), packing ${packingEfficiency.toFixed(3)}`
+    );
+  }
+
+  if (fieldEval) {
+    const cutoff = isFinite(fieldEval.cutoff) ? fieldEval.cutoff.toFixed(3) : '∞';
+    lines.push(`Field cutoff: ${cutoff} (${fieldEval.exactFallbacks} exact fallbacks)`);
+    if (fieldEval.comparisons > 0) {
+      lines.push(`Max θ* deviation (${fieldEval.comparisons} checks): ${fieldEval.maxDeviationDeg.toExponential(2)}°`);
+    }
+  }
+
+  if (placement) {
+    const gap = (g: number) => isFinite(g) ? g.toExponential(2) : '∞';
+    lines.push(`Runner-up gap: ${gap(placement.gap)} (${placement.minima} minima, min ${gap(placement.minGap)})`);
+  }
+
+  layer(ctx, 'metrics', () => {
+    let y = 20;
+    for (const line of lines) {
+      ctx.fillText(line, 10, y);
+      y += 16;
+    }
+  });
 }
 
 // =============================================================================
@@ -205,3 +728,206 @@ export function renderFieldPlot(
   ctx.fillText(`min: ${minVal.toFixed(2)}`, padding, height - 2);
   ctx.fillText(`max: ${maxVal.toFixed(2)}`, width - 60, height - 2);
 }
+
+// =============================================================================
+// Divergence Series Plot
+// =============================================================================
+
+/** Reference lines: golden and Lucas angles, and the distichous 180° */
+const SERIES_REFERENCES = [
+  { deg: NOBLE_ANGLES[0].degrees, color: 'rgba(201, 162, 39, 0.9)' },
+  { deg: NOBLE_ANGLES[1].degrees, color: 'rgba(31, 42, 34, 0.3)' },
+  { deg: 180, color: 'rgba(31, 42, 34, 0.3)' }
+];
+
+/**
+ * Render the divergence of each primordium against its index over
+ * [range.start, range.end), with the rolling circular mean ± σ as a band.
+ */
+export function renderDivergenceSeries(
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  series: DivergenceSeries,
+  range: { start: number; end: number }
+): void {
+  const dpr = window.devicePixelRatio || 1;
+  const rect = canvas.getBoundingClientRect();
+
+  canvas.width = rect.width * dpr;
+  canvas.height = rect.height * dpr;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+  const width = rect.width;
+  const height = rect.height;
+
+  ctx.fillStyle = '#F3E6C9';
+  ctx.fillRect(0, 0, width, height);
+
+  const padding = { left: 28, right: 6, top: 6, bottom: 14 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const span = Math.max(1, range.end - range.start);
+  const toX = (index: number) => padding.left + ((index - range.start) / span) * plotWidth;
+  const toY = (deg: number) => padding.top + (1 - deg / 360) * plotHeight;
+
+  ctx.font = '9px monospace';
+  ctx.lineWidth = 1;
+  for (const { deg, color } of SERIES_REFERENCES) {
+    const y = toY(deg);
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(padding.left, y);
+    ctx.lineTo(width - padding.right, y);
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(31, 42, 34, 0.6)';
+    ctx.fillText(deg.toFixed(1), 1, y + 3);
+  }
+
+  const start = Math.max(1, range.start);
+  const end = Math.min(series.length, range.end);
+  if (end <= start) {
+    ctx.fillStyle = 'rgba(31, 42, 34, 0.4)';
+    ctx.fillText('No divergences yet', padding.left + 4, height / 2);
+    return;
+  }
+
+  // Rolling band and mean, sampled about once per pixel column; the mean
+  // line breaks where it wraps across 0°/360°
+  const stride = Math.max(1, Math.floor(span / plotWidth));
+  const column = Math.max(1, plotWidth / span * stride);
+  ctx.fillStyle = 'rgba(55, 93, 66, 0.15)';
+  for (let i = start; i < end; i += stride) {
+    const { mean, stdDev } = series.rolling(i, ROLLING_WINDOW);
+    const top = toY(Math.min(360, mean + stdDev));
+    const bottom = toY(Math.max(0, mean - stdDev));
+    ctx.fillRect(toX(i), top, column, bottom - top);
+  }
+  ctx.strokeStyle = 'rgba(55, 93, 66, 0.8)';
+  ctx.beginPath();
+  let prevMean = NaN;
+  for (let i = start; i < end; i += stride) {
+    const { mean } = series.rolling(i, ROLLING_WINDOW);
+    if (Math.abs(mean - prevMean) < 180) {
+      ctx.lineTo(toX(i), toY(mean));
+    } else {
+      ctx.moveTo(toX(i), toY(mean));
+    }
+    prevMean = mean;
+  }
+  ctx.stroke();
+
+  // Every divergence as a dot
+  ctx.fillStyle = '#375D42';
+  for (let i = start; i < end; i++) {
+    ctx.fillRect(toX(i) - 0.75, toY(series.divergence(i)) - 0.75, 1.5, 1.5);
+  }
+
+  // Index axis
+  ctx.fillStyle = 'rgba(31, 42, 34, 0.6)';
+  ctx.fillText(`${range.start}`, padding.left, height - 2);
+  const endLabel = `${range.end - 1}`;
+  ctx.fillText(endLabel, width - padding.right - ctx.measureText(endLabel).width, height - 2);
+  const axisLabel = 'index';
+  ctx.fillText(axisLabel, padding.left + (plotWidth - ctx.measureText(axisLabel).width) / 2, height - 2);
+}
+
+// =============================================================================
+// Sweep Plot
+// =============================================================================
+
+/**
+ * Render a bifurcation diagram: divergence (0–360°) against the swept value,
+ * with noble-angle branches (α and 360° − α) as reference lines.
+ * 'mean' draws each run's mean with ±1σ bars; 'scatter' draws every late
+ * divergence.
+ */
+export function renderSweepPlot(
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  result: SweepResult | null,
+  range: { from: number; to: number },
+  mode: 'mean' | 'scatter'
+): void {
+  const dpr = window.devicePixelRatio || 1;
+  const rect = canvas.getBoundingClientRect();
+
+  canvas.width = rect.width * dpr;
+  canvas.height = rect.height * dpr;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+  const width = rect.width;
+  const height = rect.height;
+
+  ctx.fillStyle = '#F3E6C9';
+  ctx.fillRect(0, 0, width, height);
+
+  const padding = { left: 28, right: 6, top: 6, bottom: 14 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const span = range.to - range.from;
+  const toX = (value: number) =>
+    padding.left + (span === 0 ? 0.5 : (value - range.from) / span) * plotWidth;
+  const toY = (deg: number) => padding.top + (1 - deg / 360) * plotHeight;
+
+  // Noble branches; only the golden ones are labelled (the others sit too close)
+  ctx.font = '9px monospace';
+  ctx.lineWidth = 1;
+  for (const angle of NOBLE_ANGLES) {
+    const golden = angle === NOBLE_ANGLES[0];
+    ctx.strokeStyle = golden ? 'rgba(201, 162, 39, 0.9)' : 'rgba(31, 42, 34, 0.2)';
+    for (const deg of [angle.degrees, 360 - angle.degrees]) {
+      const y = toY(deg);
+      ctx.beginPath();
+      ctx.moveTo(padding.left, y);
+      ctx.lineTo(width - padding.right, y);
+      ctx.stroke();
+      if (golden) {
+        ctx.fillStyle = 'rgba(150, 115, 20, 0.9)';
+        ctx.fillText(deg.toFixed(1), 1, y + 3);
+      }
+    }
+  }
+
+  // Data
+  if (result) {
+    ctx.fillStyle = 'rgba(55, 93, 66, 0.5)';
+    ctx.strokeStyle = '#375D42';
+    for (const point of result.points) {
+      const x = toX(point.value);
+      if (mode === 'scatter') {
+        for (const d of point.divergences) {
+          ctx.fillRect(x - 0.75, toY(d) - 0.75, 1.5, 1.5);
+        }
+      } else {
+        // Circular mean ± circular standard deviation, wrapped around 0/360
+        const mean = point.circularMean;
+        const spread = circularStdDev(1 - point.circularVariance);
+        const low = mean - spread;
+        const high = mean + spread;
+        const band = (from: number, to: number) => {
+          ctx.moveTo(x, toY(from));
+          ctx.lineTo(x, toY(to));
+        };
+        ctx.beginPath();
+        band(Math.max(0, low), Math.min(360, high));
+        if (low < 0) band(360 + low, 360);
+        if (high > 360) band(0, high - 360);
+        ctx.stroke();
+        ctx.fillStyle = '#375D42';
+        ctx.beginPath();
+        ctx.arc(x, toY(mean), 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }
+
+  // Axis labels
+  ctx.fillStyle = 'rgba(31, 42, 34, 0.6)';
+  ctx.fillText(`${range.from}`, padding.left, height - 2);
+  const toLabel = `${range.to}`;
+  ctx.fillText(toLabel, width - padding.right - ctx.measureText(toLabel).width, height - 2);
+  if (result) {
+    const paramLabel = result.param;
+    ctx.fillText(paramLabel, padding.left + (plotWidth - ctx.measureText(paramLabel).width) / 2, height - 2);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * SVG export.
+ *
+ * SvgContext implements the part of the canvas 2D API the pattern renderer
+ * uses, writing SVG elements instead of pixels, so render() and
+ * renderMetrics() draw the same picture into a resolution-independent file.
+ * The renderer opens a group per layer (primordia, ring, overlays, …) through
+ * the optional beginLayer / endLayer hooks.
+ */
+
+import type { DrawingContext } from './render';
+
+// =============================================================================
+// Colours
+// =============================================================================
+
+interface SvgColor {
+  color: string;
+  opacity: number;
+}
+
+/**
+ * Split a CSS colour into an opaque colour and an opacity: rgba() and hsla()
+ * fills are not understood by every SVG editor.
+ */
+function svgColor(css: string): SvgColor {
+  const match = css.replace(/\s+/g, '').match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (!match) return { color: css, opacity: 1 };
+  const [a, b, c, alpha] = match[2].split(',').map((part) => parseFloat(part));
+  const opacity = alpha === undefined ? 1 : alpha;
+  const [red, green, blue] = match[1].startsWith('rgb') ? [a, b, c] : hslToRgb(a, b / 100, c / 100);
+  const hex = (v: number) => Math.round(Math.max(0, Math.min(255, v))).toString(16).padStart(2, '0');
+  return { color: `#${hex(red)}${hex(green)}${hex(blue)}`, opacity };
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const chroma = saturation * (1 - Math.abs(2 * lightness - 1));
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return 255 * (lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+// =============================================================================
+// Context
+// =============================================================================
+
+/** Coordinates to 0.01 px: far below anything visible at any zoom that matters */
+function num(v: number): string {
+  return String(Math.round(v * 100) / 100);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export class SvgContext implements DrawingContext {
+  fillStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  strokeStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  lineWidth = 1;
+  font = '10px sans-serif';
+
+  private elements: string[] = [];
+  private indent = 1;
+  private path: string[] = [];
+  // Set while the current path is a single full circle (drawn as <circle>)
+  private circle: { x: number; y: number; r: number } | null = null;
+  private hasPoint = false;
+
+  /**
+   * @param background  Fill of a background rectangle (its own layer), or
+   *                    null for a transparent document
+   */
+  constructor(
+    private width: number,
+    private height: number,
+    background: string | null = null
+  ) {
+    if (background) {
+      this.beginLayer('background');
+      this.emit(`<rect width="${num(width)}" height="${num(height)}"${this.paint('fill', background)}/>`);
+      this.endLayer();
+    }
+  }
+
+  beginLayer(id: string): void {
+    this.emit(`<g id="${escapeXml(id)}">`);
+    this.indent++;
+  }
+
+  endLayer(): void {
+    this.indent--;
+    this.emit('</g>');
+  }
+
+  /** The document starts empty, so there is nothing to clear */
+  clearRect(): void {}
+
+  beginPath(): void {
+    this.path = [];
+    this.circle = null;
+    this.hasPoint = false;
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push(`M${num(x)} ${num(y)}`);
+    this.circle = null;
+    this.hasPoint = true;
+  }
+
+  lineTo(x: number, y: number): void {
+    this.path.push(`${this.hasPoint ? 'L' : 'M'}${num(x)} ${num(y)}`);
+    this.circle = null;
+    this.hasPoint = true;
+  }
+
+  closePath(): void {
+    this.path.push('Z');
+    this.circle = null;
+  }
+
+  arc(x: number, y: number, r: number, startAngle: number, endAngle: number, counterclockwise = false): void {
+    // Sweep in the drawing direction, at most one full turn
+    let sweep = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+    const full = sweep >= 2 * Math.PI;
+    sweep = full ? 2 * Math.PI : ((sweep % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+    const sign = counterclockwise ? -1 : 1;
+    const point = (angle: number) => `${num(x + r * Math.cos(angle))} ${num(y + r * Math.sin(angle))}`;
+    const flag = counterclockwise ? 0 : 1;
+
+    const single = this.path.length === 0;
+    this.path.push(`${this.hasPoint ? 'L' : 'M'}${point(startAngle)}`);
+    if (full) {
+      // An SVG arc cannot close on itself: two half turns
+      const half = startAngle + sign * Math.PI;
+      this.path.push(`A${num(r)} ${num(r)} 0 0 ${flag} ${point(half)}`);
+      this.path.push(`A${num(r)} ${num(r)} 0 0 ${flag} ${point(startAngle)}`);
+    } else {
+      const large = sweep > Math.PI ? 1 : 0;
+      this.path.push(`A${num(r)} ${num(r)} 0 ${large} ${flag} ${point(startAngle + sign * sweep)}`);
+    }
+    this.circle = single && full ? { x, y, r } : null;
+    this.hasPoint = true;
+  }
+
+  fill(): void {
+    this.emitPath(this.paint('fill', this.fillStyle));
+  }
+
+  stroke(): void {
+    this.emitPath(
+      ` fill="none"${this.paint('stroke', this.strokeStyle)} stroke-width="${num(this.lineWidth)}"`
+    );
+  }
+
+  fillRect(x: number, y: number, w: number, h: number): void {
+    this.emit(`<rect x="${num(x)}" y="${num(y)}" width="${num(w)}" height="${num(h)}"${this.paint('fill', this.fillStyle)}/>`);
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    const font = this.font.match(/^\s*([\d.]+)px\s+(.+)$/);
+    const fontAttrs = font
+      ? ` font-size="${font[1]}" font-family="${escapeXml(font[2])}"`
+      : ` style="font: ${escapeXml(this.font)}"`;
+    this.emit(
+      `<text x="${num(x)}" y="${num(y)}"${fontAttrs}${this.paint('fill', this.fillStyle)} xml:space="preserve">` +
+      `${escapeXml(text)}</text>`
+    );
+  }
+
+  /** The finished SVG document */
+  toString(): string {
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${num(this.width)}" height="${num(this.height)}" ` +
+        `viewBox="0 0 ${num(this.width)} ${num(this.height)}">`,
+      ...this.elements,
+      `</svg>`,
+      ''
+    ].join('\n');
+  }
+
+  private paint(attribute: 'fill' | 'stroke', style: string | CanvasGradient | CanvasPattern): string {
+    const { color, opacity } = svgColor(String(style));
+    return ` ${attribute}="${escapeXml(color)}"` + (opacity < 1 ? ` ${attribute}-opacity="${opacity}"` : '');
+  }
+
+  private emitPath(attributes: string): void {
+    if (this.path.length === 0) return;
+    const { circle } = this;
+    this.emit(circle
+      ? `<circle cx="${num(circle.x)}" cy="${num(circle.y)}" r="${num(circle.r)}"${attributes}/>`
+      : `<path d="${this.path.join('')}"${attributes}/>`);
+  }
+
+  private emit(element: string): void {
+    this.elements.push('  '.repeat(this.indent) + element);
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Reference divergence angles.
+ *
+ * Noble angles are 360° / x where the continued fraction of x ends in an
+ * infinite tail of 1s (the golden ratio). They are the limits that
+ * phyllotactic divergences settle on: the golden angle (main Fibonacci
+ * branch), the Lucas angle 99.5°, and so on. Measured divergences are
+ * matched to them through circular statistics and continued fractions.
+ */
+
+export const GOLDEN_RATIO = (1 + Math.sqrt(5)) / 2;
+
+export interface NobleAngle {
+  name: string;
+  prefix: number[];   // continued fraction terms before the 1, 1, 1, ... tail
+  degrees: number;
+}
+
+/**
+ * 360° / [a0; a1, ..., ak, 1, 1, 1, ...].
+ */
+export function nobleAngle(prefix: number[]): number {
+  // [1; 1, 1, ...] = φ, so the tail after ak contributes 1/φ
+  let x = GOLDEN_RATIO;
+  for (let i = prefix.length - 1; i >= 0; i--) {
+    x = prefix[i] + 1 / x;
+  }
+  return 360 / x;
+}
+
+function noble(name: string, prefix: number[]): NobleAngle {
+  return { name, prefix, degrees: nobleAngle(prefix) };
+}
+
+/** Branches most often seen in divergence-angle bifurcation diagrams */
+export const NOBLE_ANGLES: readonly NobleAngle[] = [
+  noble('golden', [2]),          // 137.51°
+  noble('Lucas', [3]),           // 99.50°
+  noble('[4; 1, 1, …]', [4]),    // 77.96°
+  noble('[5; 1, 1, …]', [5]),    // 64.08°
+  noble('[2; 2, 1, …]', [2, 2])  // 151.14°
+];
+
+/** The golden angle, 360° / φ² ≈ 137.508° */
+export const GOLDEN_ANGLE = NOBLE_ANGLES[0].degrees;
+
+// =============================================================================
+// Divergence Analysis
+// =============================================================================
+
+/** Turning sense of the generative spiral: successive divergences below 180° are 'ccw' */
+export type Chirality = 'ccw' | 'cw';
+
+export interface NearestNoble {
+  name: string;
+  prefix: number[];
+  degrees: number;
+  deviation: number;   // folded divergence minus the noble angle (degrees)
+  series: number[];    // implied parastichy numbers (1, 2, 3, 5, 8, … for golden)
+}
+
+export interface DivergenceMetrics {
+  mean: number;                // linear mean of divergences in [0, 360)
+  stdDev: number;
+  count: number;
+  circularMean: number;        // degrees in [0, 360)
+  circularVariance: number;    // 1 − mean resultant length: 0 = identical, 1 = uniform
+  chirality: Chirality;
+  folded: number;              // circular mean folded onto [0, 180] (θ vs 360 − θ)
+  continuedFraction: number[]; // folded / 360 = [0; a1, a2, …] to measurement precision
+  noble: NearestNoble | null;
+}
+
+/** Longest prefix tried when matching the measured expansion to a noble angle */
+const MAX_NOBLE_PREFIX = 3;
+
+/** Terms of the continued fraction reported at most */
+const MAX_FRACTION_TERMS = 12;
+
+/** Parastichy numbers listed per noble */
+const SERIES_LENGTH = 8;
+
+/**
+ * Circular mean (degrees, in [0, 360)), circular variance and mean resultant
+ * length of angles in degrees.
+ */
+export function circularStats(degrees: readonly number[]): { mean: number; variance: number; resultant: number } {
+  const n = degrees.length;
+  if (n === 0) return { mean: 0, variance: 0, resultant: 0 };
+  let c = 0;
+  let s = 0;
+  for (const d of degrees) {
+    const rad = d * Math.PI / 180;
+    c += Math.cos(rad);
+    s += Math.sin(rad);
+  }
+  const resultant = Math.min(1, Math.hypot(c, s) / n);
+  // atan2 in (-180°, 180°]; a tiny negative mean must not become 360
+  const mean = (Math.atan2(s, c) * 180 / Math.PI + 360) % 360;
+  return { mean, variance: 1 - resultant, resultant };
+}
+
+/**
+ * Circular standard deviation (degrees) for a mean resultant length:
+ * √(−2 ln R̄), or 180° if the resultant vanishes.
+ */
+export function circularStdDev(resultant: number): number {
+  return resultant > 0 ? Math.sqrt(-2 * Math.log(resultant)) * 180 / Math.PI : 180;
+}
+
+/**
+ * Continued fraction [a0; a1, a2, …] of x ≥ 0, stopping once the convergent
+ * is within `tolerance` of x or after `maxTerms` terms.
+ */
+export function continuedFraction(x: number, tolerance: number, maxTerms: number = MAX_FRACTION_TERMS): number[] {
+  const terms: number[] = [];
+  // Convergents p/q, with the two previous ones
+  let p0 = 0, q0 = 1, p1 = 1, q1 = 0;
+  let r = x;
+  while (terms.length < maxTerms) {
+    const a = Math.floor(r);
+    terms.push(a);
+    [p0, q0, p1, q1] = [p1, q1, a * p1 + p0, a * q1 + q0];
+    const frac = r - a;
+    if (Math.abs(x - p1 / q1) <= tolerance || frac < 1e-12) break;
+    r = 1 / frac;
+  }
+  return terms;
+}
+
+/**
+ * Parastichy numbers implied by a divergence of 360° / [prefix…, 1, 1, …]:
+ * the denominators of the convergents of [0; prefix…, 1, 1, …].
+ */
+export function parastichySeries(prefix: readonly number[], length: number = SERIES_LENGTH): number[] {
+  const series = [1];
+  let prev = 0;
+  let q = 1;
+  for (let i = 0; series.length < length; i++) {
+    const a = i < prefix.length ? prefix[i] : 1;
+    [prev, q] = [q, a * q + prev];
+    series.push(q);
+  }
+  return series;
+}
+
+/**
+ * Noble angle nearest to a folded divergence, among the named branches and
+ * those whose prefix starts the divergence's own continued fraction
+ * ([0; a1, a2, …] as returned for folded / 360).
+ */
+export function nearestNoble(folded: number, fraction: readonly number[]): NearestNoble {
+  const prefixes = NOBLE_ANGLES.map((n) => n.prefix.slice());
+  for (let k = 1; k <= Math.min(MAX_NOBLE_PREFIX, fraction.length - 1); k++) {
+    const prefix = fraction.slice(1, 1 + k);
+    // [..., a, 1, 1, ...] is the same noble with or without trailing 1s
+    while (prefix.length > 1 && prefix[prefix.length - 1] === 1) prefix.pop();
+    prefixes.push(prefix);
+  }
+
+  let best: NearestNoble | null = null;
+  for (const prefix of prefixes) {
+    const degrees = nobleAngle(prefix);
+    const deviation = folded - degrees;
+    if (best === null || Math.abs(deviation) < Math.abs(best.deviation)) {
+      best = { name: nobleName(prefix), prefix, degrees, deviation, series: parastichySeries(prefix) };
+    }
+  }
+  return best!;
+}
+
+function nobleName(prefix: readonly number[]): string {
+  const known = NOBLE_ANGLES.find((n) =>
+    n.prefix.length === prefix.length && n.prefix.every((a, i) => a === prefix[i]));
+  if (known) return known.name;
+  const rest = [...prefix.slice(1), 1];
+  if (rest.length < 2) rest.push(1);
+  return `[${prefix[0]}; ${rest.join(', ')}, …]`;
+}
+
+/**
+ * Linear and circular statistics of divergences (degrees, in [0, 360)),
+ * with the continued fraction and nearest noble of the folded circular mean.
+ * Terms of the expansion below the standard error of the mean are dropped.
+ */
+export function analyzeDivergences(degrees: readonly number[]): DivergenceMetrics {
+  const n = degrees.length;
+  if (n === 0) {
+    return {
+      mean: 0, stdDev: 0, count: 0,
+      circularMean: 0, circularVariance: 0, chirality: 'ccw', folded: 0,
+      continuedFraction: [], noble: null
+    };
+  }
+
+  const mean = degrees.reduce((a, b) => a + b, 0) / n;
+  const variance = degrees.reduce((a, d) => a + (d - mean) ** 2, 0) / n;
+
+  const circular = circularStats(degrees);
+  const chirality: Chirality = circular.mean <= 180 ? 'ccw' : 'cw';
+  const folded = chirality === 'ccw' ? circular.mean : 360 - circular.mean;
+
+  // Standard error of the circular mean, from the circular standard deviation
+  const tolerance = Math.max(circularStdDev(circular.resultant) / Math.sqrt(n) / 360, 1e-9);
+  const fraction = continuedFraction(folded / 360, tolerance);
+
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    count: n,
+    circularMean: circular.mean,
+    circularVariance: circular.variance,
+    chirality,
+    folded,
+    continuedFraction: fraction,
+    noble: nearestNoble(folded, fraction)
+  };
+}
@@ -6,11 +6,16 @@
 // Kernel Configuration (discriminated union)
 // =============================================================================
 
+/**
+ * ellipticalExp: A·exp(-√(dx² + (dy/aspect)²) / λ), with dx along the ring and
+ * dy radial; aspect > 1 stretches inhibition radially, < 1 tangentially.
+ */
 export type KernelConfig =
   | { type: 'exp'; A: number; lambda: number }
   | { type: 'gaussian'; A: number; sigma: number }
   | { type: 'softPower'; A: number; p: number; eps: number }
   | { type: 'hardCoreExp'; A: number; lambda: number; d0: number }
+  | { type: 'ellipticalExp'; A: number; lambda: number; aspect: number }
   | { type: 'custom'; expr: string; params: CustomKernelParams };
 
 export interface CustomKernelParams {
@@ -22,15 +27,180 @@ export interface CustomKernelParams {
   d0: number;
 }
 
+// =============================================================================
+// Geometry Configuration (discriminated union)
+// =============================================================================
+
+/**
+ * Surface on which primordia live.
+ * - disk: planar apex; primordia are born on the ring of radius R and drift outward
+ * - cylinder: stem of radius R; primordia drift along the axis, and r - R is the
+ *   height above the generative ring
+ * - dome: curved apex (spherical cap or paraboloid with tip curvature
+ *   `curvature`); r is arc length from the tip, and kernel distances are
+ *   measured along the surface (geodesic) or straight through it (chordal)
+ */
+export type GeometryConfig =
+  | { type: 'disk' }
+  | { type: 'cylinder' }
+  | { type: 'dome'; shape: DomeShape; curvature: number; metric: DomeMetric };
+
+export type DomeShape = 'sphere' | 'paraboloid';
+export type DomeMetric = 'geodesic' | 'chordal';
+
+// =============================================================================
+// Drift Law Configuration (discriminated union)
+// =============================================================================
+
+/**
+ * How primordia move away from the generative ring as they age.
+ * - linear: constant drift, r += v·dt each step
+ * - exponential: relative growth, r(t) = R·exp(G·t) (Douady–Couder)
+ * - custom: r(t) from a user expression in t (age), R, v, G
+ */
+export type DriftConfig =
+  | { law: 'linear' }
+  | { law: 'exponential'; G: number }
+  | { law: 'custom'; expr: string; G: number };
+
+// =============================================================================
+// Organ Size Configuration (discriminated union)
+// =============================================================================
+
+/**
+ * Organ radius of a primordium as it ages (t = age, r = radial distance).
+ * - none: points; rendering uses pointRadius
+ * - linear: s = s0 + g·t
+ * - exponential: s = s0·exp(g·t)
+ * - proportional: s = ratio·r, seeds enlarging as they move outward
+ * edgeToEdge: the kernel sees the gap between organ edges instead of the
+ * centre distance, so hard-core d0 becomes a minimum gap between organs.
+ */
+export type SizeConfig =
+  | { law: 'none' }
+  | { law: 'linear'; s0: number; g: number; edgeToEdge: boolean }
+  | { law: 'exponential'; s0: number; g: number; edgeToEdge: boolean }
+  | { law: 'proportional'; ratio: number; edgeToEdge: boolean };
+
+// =============================================================================
+// Initiation Configuration (discriminated union)
+// =============================================================================
+
+/**
+ * When new primordia appear.
+ * - argmin: exactly one per step, at the field minimum
+ * - threshold: whenever the minimum field on the ring is below the threshold
+ *   (Douady–Couder's second model; variable plastochron, whorls possible)
+ */
+export type InitiationConfig =
+  | { mode: 'argmin' }
+  | { mode: 'threshold'; threshold: number };
+
+// =============================================================================
+// Placement Configuration (discriminated union)
+// =============================================================================
+
+/**
+ * How θ* is located on the ring.
+ * - sampled: minimum over angleSamples candidates, one parabolic refinement
+ * - continuous: every local minimum on a coarse grid refined by Brent's
+ *   method; θ* no longer depends on angleSamples
+ */
+export type PlacementConfig =
+  | { solver: 'sampled' }
+  | { solver: 'continuous'; gridSamples: number; tolerance: number };  // tolerance in radians
+
+// =============================================================================
+// Schedule Configuration
+// =============================================================================
+
+/** Parameters that can follow a schedule (kernel params apply if the kernel has them) */
+export type ScheduleParam = 'R' | 'v' | 'G' | 'A' | 'lambda' | 'sigma' | 'p' | 'eps' | 'd0' | 'aspect';
+
+export interface Keyframe {
+  at: number;     // primordium index or time (see ScheduleConfig.variable)
+  value: number;
+}
+
+export type ScheduleTrack =
+  | { param: ScheduleParam; type: 'keyframes'; keyframes: Keyframe[] }
+  | { param: ScheduleParam; type: 'expression'; expr: string };  // in n (index) and t (time)
+
+export interface ScheduleConfig {
+  enabled: boolean;
+  variable: 'index' | 'time';  // keyframe positions
+  tracks: ScheduleTrack[];
+}
+
+// =============================================================================
+// Intervention Configuration (discriminated union)
+// =============================================================================
+
+/**
+ * Surgical perturbation of a run.
+ * - ablate: remove primordium `index` (birth order) from the inhibition field
+ * - insert: initiate a primordium on the ring at `thetaDeg`, without noise of any kind
+ */
+export type InterventionAction =
+  | { type: 'ablate'; index: number }
+  | { type: 'insert'; thetaDeg: number };
+
+/** An action applied right after step `step` completes (0 = right after reset) */
+export type Intervention = InterventionAction & { step: number };
+
+// =============================================================================
+// Noise Configuration
+// =============================================================================
+
+/**
+ * Noise sources. Each draws from its own random stream derived from `seed`,
+ * so enabling one leaves the sequences of the others unchanged.
+ * - angle (enabled): θ* perturbed by a Gaussian (sigmaThetaDeg) or von Mises
+ *   (concentration kappa) offset
+ * - birthRadius: Gaussian offset (sigma, length units) to the radius at birth
+ * - amplitude: per-primordium factor on its kernel, log-normal with mean 1
+ *   (sigma of the log)
+ * - timing: threshold initiation only; each test of the minimum against the
+ *   threshold uses the threshold times a log-normal factor with mean 1
+ */
+export interface NoiseConfig {
+  enabled: boolean;
+  model: AngleNoiseModel;
+  sigmaThetaDeg: number;  // Gaussian: std dev in degrees
+  kappa: number;          // von Mises: concentration
+  seed: number;           // PRNG seed for determinism
+  birthRadius: NoiseSource;
+  amplitude: NoiseSource;
+  timing: NoiseSource;
+}
+
+export type AngleNoiseModel = 'gaussian' | 'vonMises';
+
+export interface NoiseSource {
+  enabled: boolean;
+  sigma: number;
+}
+
+/**
+ * Voronoi cell layer: off, or cells coloured by number of sides (5 and 7
+ * highlighted as defects), by area, or by packing efficiency.
+ */
+export type VoronoiColoring = 'none' | 'sides' | 'area' | 'packing';
+
 // =============================================================================
 // Simulation Configuration
 // =============================================================================
 
 export interface SimConfig {
   // Simulation geometry
+  geometry: GeometryConfig;
   R: number;              // active ring radius
   v: number;              // radial drift per step
   dt: number;             // step size
+  drift: DriftConfig;     // drift law (linear uses v)
+  size: SizeConfig;       // organ size law
+  initiation: InitiationConfig;
+  placement: PlacementConfig;
   maxR: number;           // ignore primordia beyond this
 
   // Sampling
@@ -38,23 +208,36 @@ export interface SimConfig {
   totalPrimordia: number;
   batchSize: number;
 
+  // Field evaluation
+  fieldEval: {
+    mode: 'exact' | 'cutoff';  // cutoff: skip contributors beyond the kernel cutoff distance
+    tolerance: number;         // kernel magnitude treated as zero (defines the cutoff)
+    compareExact: boolean;     // also run the exact path and track the θ* deviation
+  };
+
   // Kernel (discriminated union - all kernel params here)
   kernel: KernelConfig;
 
+  // Parameter schedules (override the values above as the run progresses)
+  schedule: ScheduleConfig;
+
+  // Ablations and insertions, replayed at their steps
+  interventions: Intervention[];
+
   // Noise (optional)
-  noise: {
-    enabled: boolean;
-    sigmaThetaDeg: number;  // std dev in degrees
-    seed: number;           // PRNG seed for determinism
-  };
+  noise: NoiseConfig;
 
   // Render options
   render: {
     showRing: boolean;
     showMetrics: boolean;
     showFieldPlot: boolean;
+    showDivergencePlot: boolean; // Divergence of each primordium against index
     pointRadius: number;
     scaleByDistance: boolean;  // Scale point size by distance from center (natural growth)
+    showParastichies: boolean; // Overlay detected spiral families
+    tiltDeg: number;           // Dome view: 0 looks down the axis, 90 from the side
+    voronoi: VoronoiColoring;  // Voronoi cell layer under the primordia
   };
 }
 
@@ -64,35 +247,60 @@ export interface SimConfig {
 
 export function defaultConfig(): SimConfig {
   return {
+    geometry: { type: 'disk' },
     R: 1.0,
     v: 0.02,
     dt: 1.0,
+    drift: { law: 'linear' },
+    size: { law: 'none' },
+    initiation: { mode: 'argmin' },
+    placement: { solver: 'sampled' },
     maxR: 3.0,
     angleSamples: 720,
     totalPrimordia: 1000,
     batchSize: 30,
+    fieldEval: {
+      mode: 'exact',
+      tolerance: 1e-6,
+      compareExact: false
+    },
     kernel: {
       type: 'exp',
       A: 1.0,
       lambda: 0.18
     },
+    schedule: {
+      enabled: false,
+      variable: 'index',
+      tracks: []
+    },
+    interventions: [],
     noise: {
       enabled: true,
+      model: 'gaussian',
       sigmaThetaDeg: 0.1,
-      seed: 12345
+      kappa: 10000,
+      seed: 12345,
+      birthRadius: { enabled: false, sigma: 0.01 },
+      amplitude: { enabled: false, sigma: 0.1 },
+      timing: { enabled: false, sigma: 0.1 }
     },
     render: {
       showRing: true,
       showMetrics: true,
       showFieldPlot: false,
+      showDivergencePlot: true,
       pointRadius: 5.0,
-      scaleByDistance: true
+      scaleByDistance: true,
+      showParastichies: false,
+      tiltDeg: 35,
+      voronoi: 'none'
     }
   };
 }
 
 // =============================================================================
-// Default Custom Kernel Params
+// Default Kernel Params
 // =============================================================================
 
 export function defaultCustomParams(): CustomKernelParams {
@@ -106,6 +314,70 @@ export function defaultCustomParams(): CustomKernelParams {
   };
 }
 
+/**
+ * A kernel of the given type with the default parameters.
+ */
+export function defaultKernel(type: KernelConfig['type']): KernelConfig {
+  const params = defaultCustomParams();
+  const { A, lambda, sigma, p, eps, d0 } = params;
+  switch (type) {
+    case 'exp': return { type, A, lambda };
+    case 'gaussian': return { type, A, sigma };
+    case 'softPower': return { type, A, p, eps };
+    case 'hardCoreExp': return { type, A, lambda, d0 };
+    case 'ellipticalExp': return { type, A, lambda, aspect: 1.5 };
+    case 'custom': return { type, expr: 'A * exp(-d / lambda)', params };
+  }
+}
+
+// =============================================================================
+// Default Variants
+// =============================================================================
+
+/** Geometry of the given type with the default parameters */
+export function defaultGeometry(type: GeometryConfig['type']): GeometryConfig {
+  switch (type) {
+    case 'disk': return { type };
+    case 'cylinder': return { type };
+    case 'dome': return { type, shape: 'paraboloid', curvature: 0.5, metric: 'geodesic' };
+  }
+}
+
+/** Drift law with the default parameters */
+export function defaultDrift(law: DriftConfig['law']): DriftConfig {
+  switch (law) {
+    case 'linear': return { law };
+    case 'exponential': return { law, G: 0.01 };
+    case 'custom': return { law, expr: 'R * exp(G * t)', G: 0.01 };
+  }
+}
+
+/** Organ size law with the default parameters */
+export function defaultSize(law: SizeConfig['law']): SizeConfig {
+  switch (law) {
+    case 'none': return { law };
+    case 'linear': return { law, s0: 0.05, g: 0.001, edgeToEdge: false };
+    case 'exponential': return { law, s0: 0.05, g: 0.01, edgeToEdge: false };
+    case 'proportional': return { law, ratio: 0.08, edgeToEdge: false };
+  }
+}
+
+/** Initiation mode with the default parameters */
+export function defaultInitiation(mode: InitiationConfig['mode']): InitiationConfig {
+  switch (mode) {
+    case 'argmin': return { mode };
+    case 'threshold': return { mode, threshold: 0.5 };
+  }
+}
+
+/** Placement solver with the default parameters */
+export function defaultPlacement(solver: PlacementConfig['solver']): PlacementConfig {
+  switch (solver) {
+    case 'sampled': return { solver };
+    case 'continuous': return { solver, gridSamples: 180, tolerance: 1e-9 };
+  }
+}
+
 // =============================================================================
 // Presets
 // =============================================================================
@@ -156,6 +428,67 @@ export const PRESETS: Preset[] = [
       kernel: { type: 'hardCoreExp', A: 1.0, lambda: 0.18, d0: 0.05 }
     }
   },
+  {
+    name: 'Threshold initiation',
+    description: 'Initiate when the field drops below a threshold (variable plastochron)',
+    config: {
+      ...defaultConfig(),
+      initiation: { mode: 'threshold', threshold: 0.1 }
+    }
+  },
+  {
+    name: 'Paired initiation',
+    description: 'Threshold initiation producing opposite pairs born together',
+    config: {
+      ...defaultConfig(),
+      initiation: { mode: 'threshold', threshold: 0.2 },
+      kernel: { type: 'exp', A: 1.0, lambda: 0.3 }
+    }
+  },
+  {
+    name: 'Lambda ramp',
+    description: 'Schedule lambda downward to drive phyllotactic transitions',
+    config: {
+      ...defaultConfig(),
+      totalPrimordia: 1200,
+      kernel: { type: 'exp', A: 1.0, lambda: 0.45 },
+      schedule: {
+        enabled: true,
+        variable: 'index',
+        tracks: [
+          { param: 'lambda', type: 'keyframes', keyframes: [{ at: 0, value: 0.45 }, { at: 1200, value: 0.12 }] }
+        ]
+      }
+    }
+  },
+  {
+    name: 'Cylinder (stem)',
+    description: 'Primordia on a cylindrical stem, shown as an unrolled lattice',
+    config: {
+      ...defaultConfig(),
+      geometry: { type: 'cylinder' },
+      totalPrimordia: 600
+    }
+  },
+  {
+    name: 'Dome (paraboloid apex)',
+    description: 'Primordia on a curved apex with geodesic distances, seen in perspective',
+    config: {
+      ...defaultConfig(),
+      geometry: { type: 'dome', shape: 'paraboloid', curvature: 0.5, metric: 'geodesic' }
+    }
+  },
+  {
+    name: 'Wide active zone',
+    description: 'Large maxR evaluated with the kernel cutoff and angular bins',
+    config: {
+      ...defaultConfig(),
+      maxR: 10,
+      totalPrimordia: 2000,
+      batchSize: 50,
+      fieldEval: { mode: 'cutoff', tolerance: 1e-6, compareExact: false }
+    }
+  },
   {
     name: 'Stress test (10000)',
     description: 'Performance test with many primordia - may cause slowdown',
@@ -175,3 +508,30 @@ export const PRESETS: Preset[] = [
 export function cloneConfig(cfg: SimConfig): SimConfig {
   return JSON.parse(JSON.stringify(cfg));
 }
+
+// =============================================================================
+// Normalization (older exports / URL hashes)
+// =============================================================================
+
+/**
+ * Fill sections missing from an imported config with defaults, so configs
+ * exported before a section existed still load.
+ */
+export function normalizeConfig(raw: Partial<SimConfig>): SimConfig {
+  const defaults = defaultConfig();
+  return {
+    ...defaults,
+    ...raw,
+    geometry: raw.geometry ?? defaults.geometry,
+    drift: raw.drift ?? defaults.drift,
+    size: raw.size ?? defaults.size,
+    initiation: raw.initiation ?? defaults.initiation,
+    placement: raw.placement ?? defaults.placement,
+    fieldEval: { ...defaults.fieldEval, ...raw.fieldEval },
+    kernel: raw.kernel ?? defaults.kernel,
+    schedule: raw.schedule ?? defaults.schedule,
+    interventions: raw.interventions ?? defaults.interventions,
+    noise: { ...defaults.noise, ...raw.noise },
+    render: { ...defaults.render, ...raw.render }
+  };
+}
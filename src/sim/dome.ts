@@ -0,0 +1,122 @@
+/**
+ * Dome geometry: the apex as a surface of revolution.
+ *
+ * Primordia keep their (θ, r) coordinates, with r the arc length from the tip
+ * along a meridian, so drift, initiation and the active set work as on the
+ * disk. The surface maps r to a distance from the axis and a depth below the
+ * tip; kernel distances are measured in 3D.
+ */
+
+import type { GeometryConfig } from './config';
+
+type DomeGeometry = Extract<GeometryConfig, { type: 'dome' }>;
+
+// =============================================================================
+// Compiled Dome Interface
+// =============================================================================
+
+export interface CompiledDome {
+  /** Distance from the axis at arc length s from the tip */
+  rho: (s: number) => number;
+  /** Depth below the tip at arc length s */
+  depth: (s: number) => number;
+  /** Angle between the surface normal and the axis at arc length s */
+  slope: (s: number) => number;
+  /** Kernel distance between two surface points (chordal or geodesic) */
+  distance: (ax: number, ay: number, az: number, bx: number, by: number, bz: number) => number;
+}
+
+// =============================================================================
+// Dome Compilation
+// =============================================================================
+
+/**
+ * Sphere of radius 1/κ, or paraboloid z = κρ²/2 (curvature κ at the tip).
+ *
+ * Geodesic distances are exact on the sphere (from the chord). On the
+ * paraboloid they are the length of the surface curve above the straight
+ * segment in the plane: exact along meridians, and a close upper bound at
+ * kernel ranges.
+ */
+export function compileDome(geometry: DomeGeometry): CompiledDome {
+  const k = geometry.curvature;
+  const geodesic = geometry.metric === 'geodesic';
+
+  if (geometry.shape === 'sphere') {
+    const radius = 1 / k;
+    return {
+      rho: (s) => radius * Math.sin(s * k),
+      depth: (s) => radius * (1 - Math.cos(s * k)),
+      slope: (s) => s * k,
+      distance: (ax, ay, az, bx, by, bz) => {
+        const dx = ax - bx;
+        const dy = ay - by;
+        const dz = az - bz;
+        const chord = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (!geodesic) return chord;
+        return 2 * radius * Math.asin(Math.min(1, chord / (2 * radius)));
+      }
+    };
+  }
+
+  const rho = (s: number) => paraboloidRadius(s, k);
+  return {
+    rho,
+    depth: (s) => {
+      const r = rho(s);
+      return 0.5 * k * r * r;
+    },
+    slope: (s) => Math.atan(k * rho(s)),
+    distance: (ax, ay, az, bx, by, bz) => {
+      const dx = bx - ax;
+      const dy = by - ay;
+      if (!geodesic) {
+        const dz = bz - az;
+        return Math.sqrt(dx * dx + dy * dy + dz * dz);
+      }
+      return liftedSegmentLength(ax, ay, dx, dy, k);
+    }
+  };
+}
+
+// =============================================================================
+// Paraboloid
+// =============================================================================
+
+/** Meridian arc length from the tip of z = κρ²/2 to distance ρ from the axis */
+function paraboloidArc(rho: number, k: number): number {
+  const u = k * rho;
+  return 0.5 * (rho * Math.sqrt(1 + u * u) + Math.asinh(u) / k);
+}
+
+/**
+ * Inverse of paraboloidArc by Newton's method. The arc is convex in ρ and
+ * ρ <= s, so iterating from ρ = s converges monotonically.
+ */
+function paraboloidRadius(s: number, k: number): number {
+  let rho = s;
+  for (let iter = 0; iter < 50; iter++) {
+    const u = k * rho;
+    const step = (paraboloidArc(rho, k) - s) / Math.sqrt(1 + u * u);
+    rho -= step;
+    if (Math.abs(step) <= 1e-12 * (1 + s)) break;
+  }
+  return rho;
+}
+
+/**
+ * Length of the paraboloid curve above the plane segment from (ax, ay) to
+ * (ax + dx, ay + dy): ∫ c·√(1 + (κ(a/c + ct))²) dt with a = p·Δ, c = |Δ|.
+ * The two asinh terms of the antiderivative are merged into one, which also
+ * keeps the difference accurate for small κ.
+ */
+function liftedSegmentLength(ax: number, ay: number, dx: number, dy: number, k: number): number {
+  const cSq = dx * dx + dy * dy;
+  if (cSq === 0) return 0;
+  const c = Math.sqrt(cSq);
+  const u0 = k * (ax * dx + ay * dy) / c;
+  const u1 = u0 + k * c;
+  const h0 = Math.sqrt(1 + u0 * u0);
+  const h1 = Math.sqrt(1 + u1 * u1);
+  return (u1 * h1 - u0 * h0 + Math.asinh(u1 * h0 - u0 * h1)) / (2 * k);
+}
@@ -0,0 +1,87 @@
+/**
+ * Drift laws: how primordia move away from the generative ring as they age.
+ *
+ * A primordium's radius is derived from its birth data rather than stepped:
+ * linear and exponential laws accumulate a drift coordinate (v·dt or G·dt per
+ * step, so scheduled rates integrate correctly), custom laws read the age.
+ * Laws that are monotone in age keep older primordia further out, which the
+ * simulator relies on to treat the active set as a suffix of the primordia.
+ */
+
+import { Parser } from 'expr-eval';
+import type { SimConfig } from './config';
+
+// =============================================================================
+// Compiled Drift Law Interface
+// =============================================================================
+
+export interface CompiledDrift {
+  /** Drift coordinate gained per step (v·dt linear, G·dt exponential, 0 custom) */
+  increment: number;
+  /** Radius given the birth radius, drift coordinate gained since birth, and age */
+  radius: (birthR: number, travel: number, age: number) => number;
+  /** True if the law is known to be monotone in age (suffix invariant holds) */
+  monotonic: boolean;
+}
+
+/** Variables a custom drift expression can read (R is the birth radius) */
+export const DRIFT_VARIABLES: readonly string[] = ['t', 'R', 'v', 'G', 'dt'];
+
+// =============================================================================
+// Expression Parser (singleton)
+// =============================================================================
+
+const exprParser = new Parser();
+
+// =============================================================================
+// Drift Compilation
+// =============================================================================
+
+/**
+ * Compile the drift law of a configuration.
+ *
+ * For custom laws:
+ * - r(t) is evaluated directly from the age t, with R bound to the
+ *   primordium's own birth radius
+ * - Runtime safety: non-finite results or exceptions give the birth radius
+ */
+export function compileDrift(cfg: Pick<SimConfig, 'drift' | 'v' | 'dt'>): CompiledDrift {
+  const { drift, v, dt } = cfg;
+
+  switch (drift.law) {
+    case 'linear':
+      return {
+        increment: v * dt,
+        radius: (birthR, travel) => birthR + travel,
+        monotonic: true
+      };
+
+    case 'exponential':
+      // r(t) = R·exp(G·t), with G·t accumulated step by step
+      return {
+        increment: drift.G * dt,
+        radius: (birthR, travel) => birthR * Math.exp(travel),
+        monotonic: drift.G > 0
+      };
+
+    case 'custom': {
+      const compiled = exprParser.parse(drift.expr);
+      // Stable scope shape; only R and t are mutated per call
+      const scope = { R: 0, v, G: drift.G, dt, t: 0 };
+      return {
+        increment: 0,
+        radius: (birthR, _travel, age) => {
+          try {
+            scope.R = birthR;
+            scope.t = age;
+            const result = compiled.evaluate(scope);
+            return Number.isFinite(result) ? result : birthR;
+          } catch {
+            return birthR;
+          }
+        },
+        monotonic: false
+      };
+    }
+  }
+}
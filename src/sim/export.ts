@@ -0,0 +1,183 @@
+/**
+ * Primordia data export with provenance.
+ *
+ * One row per primordium: polar and Cartesian position, birth step and
+ * divergence from its predecessor, under a header recording the app version,
+ * the full configuration, the seed and a SHA-256 hash of the rows. Two runs
+ * with the same hash produced the same primordia, bit for bit, whichever
+ * format either was saved in: the hash covers a canonical CSV rendering of
+ * the rows, not the file.
+ */
+
+import { version } from '../../package.json';
+import type { SimConfig } from './config';
+import type { PrimordiaView } from './primordia';
+import { compileDome } from './dome';
+import { compileSize } from './size';
+import { DivergenceSeries } from './series';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const DATA_FORMAT = 'phyllotaxis-data';
+export const APP_VERSION: string = version;
+
+export type DataFormat = 'csv' | 'json';
+
+export interface Provenance {
+  appVersion: string;
+  exportedAt: string;         // ISO 8601
+  seed: number;
+  step: number;               // simulation step the data is from
+  count: number;
+  /** SHA-256 (hex) of the canonical rows, see canonicalRows */
+  sha256: string;
+  config: SimConfig;
+}
+
+export interface PrimordiumRow {
+  index: number;
+  theta: number;
+  r: number;
+  birthStep: number;
+  x: number;
+  y: number;
+  z: number;
+  divergenceDeg: number | null;   // null for the first primordium
+  size?: number;
+  ablated?: boolean;
+}
+
+export interface DataExport {
+  provenance: Provenance;
+  rows: PrimordiumRow[];
+}
+
+// =============================================================================
+// Rows
+// =============================================================================
+
+/**
+ * Rows for every primordium. Cartesian positions are in model units with z
+ * along the axis: the disk lies in z = 0, the cylinder has radius R with z
+ * the height above the generative ring, and the dome's tip is at the origin
+ * with z = −depth. Size is included with a size law, ablated with ablations.
+ */
+export function primordiumRows(view: PrimordiaView, cfg: SimConfig): PrimordiumRow[] {
+  const geometry = cfg.geometry;
+  const sized = compileSize(cfg).enabled;
+  const dome = geometry.type === 'dome' ? compileDome(geometry) : null;
+  const ablations = cfg.interventions.some((intervention) => intervention.type === 'ablate');
+  const series = new DivergenceSeries();
+  series.sync(view);
+
+  const rows: PrimordiumRow[] = [];
+  for (let i = 0; i < view.count; i++) {
+    const r = view.radius(i);
+    let rho = r;
+    let z = 0;
+    if (geometry.type === 'cylinder') {
+      rho = cfg.R;
+      z = r - cfg.R;
+    } else if (dome) {
+      rho = dome.rho(r);
+      z = -dome.depth(r);
+    }
+    const divergence = series.divergence(i);
+    rows.push({
+      index: i,
+      theta: view.theta(i),
+      r,
+      birthStep: view.birthStep(i),
+      x: rho * view.cos(i),
+      y: rho * view.sin(i),
+      z,
+      divergenceDeg: isNaN(divergence) ? null : divergence,
+      ...(sized ? { size: view.size(i) } : {}),
+      ...(ablations ? { ablated: view.ablated(i) } : {})
+    });
+  }
+  return rows;
+}
+
+/**
+ * The column header and rows as CSV, each line ending in \n. Numbers are
+ * written at full (round-trip) precision; this text is what the hash covers.
+ */
+export function canonicalRows(rows: PrimordiumRow[]): string {
+  const sized = rows.length > 0 && rows[0].size !== undefined;
+  const ablations = rows.length > 0 && rows[0].ablated !== undefined;
+  const lines = [
+    'index,theta,r,birth_step,x,y,z,divergence_deg' + (sized ? ',size' : '') + (ablations ? ',ablated' : '')
+  ];
+  for (const row of rows) {
+    let line = `${row.index},${row.theta},${row.r},${row.birthStep},${row.x},${row.y},${row.z},${row.divergenceDeg ?? ''}`;
+    if (sized) line += `,${row.size}`;
+    if (ablations) line += `,${row.ablated ? 1 : 0}`;
+    lines.push(line);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('Hashing needs a secure context (https or localhost)');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Collect the rows of `view` and their provenance.
+ */
+export async function buildDataExport(
+  view: PrimordiaView,
+  cfg: SimConfig,
+  step: number
+): Promise<DataExport> {
+  const rows = primordiumRows(view, cfg);
+  return {
+    provenance: {
+      appVersion: APP_VERSION,
+      exportedAt: new Date().toISOString(),
+      seed: cfg.noise.seed,
+      step,
+      count: view.count,
+      sha256: await sha256Hex(canonicalRows(rows)),
+      config: cfg
+    },
+    rows
+  };
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Provenance as `# key=value` comment lines (the config as one line of
+ * JSON), then the canonical rows.
+ */
+export function formatDataCsv(data: DataExport): string {
+  const { appVersion, exportedAt, seed, step, count, sha256, config } = data.provenance;
+  return [
+    `# format=${DATA_FORMAT}`,
+    `# app_version=${appVersion}`,
+    `# exported_at=${exportedAt}`,
+    `# seed=${seed}`,
+    `# step=${step}`,
+    `# count=${count}`,
+    `# sha256=${sha256}`,
+    `# config=${JSON.stringify(config)}`,
+    ''
+  ].join('\n') + canonicalRows(data.rows);
+}
+
+/**
+ * Provenance and rows under `primordia`; the hash can be checked by writing
+ * the rows back out with canonicalRows.
+ */
+export function formatDataJson(data: DataExport): string {
+  return JSON.stringify({ format: DATA_FORMAT, provenance: data.provenance, primordia: data.rows }, null, 2) + '\n';
+}
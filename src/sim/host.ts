@@ -0,0 +1,419 @@
+/**
+ * Simulator host: drives a Simulator from the main thread.
+ *
+ * The worker host runs the simulation in a dedicated Web Worker; the local
+ * host runs it in-thread and is used when workers are unavailable. The worker
+ * host keeps a mirror of the primordia for rendering, refreshed from every
+ * update; the local host exposes the simulator's own storage.
+ */
+
+import type { Intervention, InterventionAction, SimConfig } from './config';
+import { Simulator } from './simulator';
+import {
+  ClockedPrimordia,
+  compileClockLaws,
+  type ClockLaws,
+  type PrimordiaClock,
+  type PrimordiaView
+} from './primordia';
+import { runSweepPoint } from './sweep';
+import type { SimulatorSnapshot } from './snapshot';
+import {
+  collectFrame,
+  collectMetrics,
+  collectStatus,
+  type PrimordiaUpdate,
+  type SimFrame,
+  type SimMetrics,
+  type SimRequestBody,
+  type SimResponse,
+  type SimStatus
+} from './protocol';
+
+// =============================================================================
+// Host Interface
+// =============================================================================
+
+/**
+ * The run as it was right after an earlier step (for the timeline).
+ */
+export interface TimelineFrame {
+  status: SimStatus;
+  primordia: PrimordiaView;
+  /** Field values at the candidate angles (empty unless requested) */
+  field: Float64Array;
+}
+
+export interface SimulatorHost {
+  /** Primordia as of the last completed request */
+  readonly primordia: PrimordiaView;
+  /** Status after the last completed request (null before init) */
+  readonly status: SimStatus | null;
+  /** True if the simulation runs in a worker */
+  readonly threaded: boolean;
+
+  init(cfg: SimConfig): Promise<SimStatus>;
+  reset(): Promise<SimStatus>;
+  step(): Promise<SimStatus>;
+  runBatch(): Promise<SimStatus>;
+  getFieldValues(): Promise<Float64Array>;
+  getMetrics(): Promise<SimMetrics>;
+  /** Ablate or insert a primordium now; the logged intervention, or null if it does not apply */
+  intervene(action: InterventionAction): Promise<Intervention | null>;
+  /** Complete simulator state, for checkpoints */
+  snapshot(): Promise<SimulatorSnapshot>;
+  /** Replace the state (and config) with a snapshot's */
+  restore(snapshot: SimulatorSnapshot): Promise<SimStatus>;
+  /** State right after an earlier step (0..status.stepCount), optionally with field values */
+  frameAt(step: number, field: boolean): Promise<TimelineFrame>;
+  /** Run a separate simulation to completion; last `late` divergences (degrees) */
+  runSweepPoint(cfg: SimConfig, late: number): Promise<number[]>;
+  isComplete(): boolean;
+  dispose(): void;
+}
+
+/**
+ * Create a worker-backed host, or a local host if workers are unavailable.
+ */
+export function createSimulatorHost(): SimulatorHost {
+  if (typeof Worker !== 'undefined') {
+    try {
+      const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+      return new WorkerSimulatorHost(worker);
+    } catch (err) {
+      console.warn('createSimulatorHost: worker unavailable, running on the main thread.', err);
+    }
+  }
+  return new LocalSimulatorHost();
+}
+
+// =============================================================================
+// Primordia Mirror
+// =============================================================================
+
+/** Clock of the empty mirror, before the first update */
+const EMPTY_CLOCK: PrimordiaClock = {
+  stepCount: 0,
+  travel: 0,
+  laws: { v: 0, dt: 1, drift: { law: 'linear' }, size: { law: 'none' } }
+};
+
+/**
+ * Main-thread copy of the worker's primordia. Birth data arrives once per
+ * primordium and ablations once each, and are appended; radii, sizes and
+ * ablation flags are derived from them at the clock of the latest update.
+ */
+class MirroredPrimordia implements PrimordiaView {
+  // Birth data (PrimordiaBirthData), read by the clocked views
+  thetas = new Float64Array(1024);
+  cosines = new Float64Array(1024);
+  sines = new Float64Array(1024);
+  birthSteps = new Float64Array(1024);
+  birthRadii = new Float64Array(1024);
+  birthTravel = new Float64Array(1024);
+  ablatedSteps = new Float64Array(1024).fill(Infinity);
+  readonly ablations: [number, number][] = [];
+
+  private view: PrimordiaView = new ClockedPrimordia(this, 0, EMPTY_CLOCK, compileClockLaws(EMPTY_CLOCK));
+  private lawsKey = '';
+  private laws!: ClockLaws;
+
+  get count(): number {
+    return this.view.count;
+  }
+
+  apply(update: PrimordiaUpdate): void {
+    const { start, count } = update;
+    if (start === 0) {
+      this.ablatedSteps.fill(Infinity);
+      this.ablations.length = 0;
+    }
+    this.ensureCapacity(count);
+    for (let i = start; i < count; i++) {
+      const theta = update.theta[i - start];
+      this.thetas[i] = theta;
+      this.cosines[i] = Math.cos(theta);
+      this.sines[i] = Math.sin(theta);
+      this.birthSteps[i] = update.birthStep[i - start];
+      this.birthRadii[i] = update.birthRadius[i - start];
+      this.birthTravel[i] = update.birthTravel[i - start];
+    }
+    for (const [i, step] of update.ablations) {
+      this.ablatedSteps[i] = step;
+      this.ablations.push([i, step]);
+    }
+    this.view = this.at(count, update.clock);
+  }
+
+  /**
+   * The first `count` primordia as seen at `clock` (a timeline frame, or the
+   * latest update). Valid until the run is reset.
+   */
+  at(count: number, clock: PrimordiaClock): PrimordiaView {
+    const key = JSON.stringify(clock.laws);
+    if (key !== this.lawsKey) {
+      this.laws = compileClockLaws(clock);
+      this.lawsKey = key;
+    }
+    return new ClockedPrimordia(this, count, clock, this.laws);
+  }
+
+  theta(i: number): number {
+    return this.view.theta(i);
+  }
+
+  cos(i: number): number {
+    return this.view.cos(i);
+  }
+
+  sin(i: number): number {
+    return this.view.sin(i);
+  }
+
+  radius(i: number): number {
+    return this.view.radius(i);
+  }
+
+  birthStep(i: number): number {
+    return this.view.birthStep(i);
+  }
+
+  size(i: number): number {
+    return this.view.size(i);
+  }
+
+  ablated(i: number): boolean {
+    return this.view.ablated(i);
+  }
+
+  private ensureCapacity(count: number): void {
+    if (count <= this.thetas.length) return;
+    let capacity = this.thetas.length;
+    while (capacity < count) capacity *= 2;
+    const grow = (a: Float64Array, fill: number = 0) => {
+      const b = new Float64Array(capacity).fill(fill);
+      b.set(a);
+      return b;
+    };
+    this.thetas = grow(this.thetas);
+    this.cosines = grow(this.cosines);
+    this.sines = grow(this.sines);
+    this.birthSteps = grow(this.birthSteps);
+    this.birthRadii = grow(this.birthRadii);
+    this.birthTravel = grow(this.birthTravel);
+    this.ablatedSteps = grow(this.ablatedSteps, Infinity);
+  }
+}
+
+function timelineFrame(frame: SimFrame, primordia: PrimordiaView): TimelineFrame {
+  return { status: frame.status, primordia, field: frame.field };
+}
+
+// =============================================================================
+// Worker Host
+// =============================================================================
+
+type Pending = {
+  resolve: (response: SimResponse) => void;
+  reject: (err: Error) => void;
+};
+
+export class WorkerSimulatorHost implements SimulatorHost {
+  readonly primordia = new MirroredPrimordia();
+  status: SimStatus | null = null;
+  readonly threaded = true;
+
+  private nextId = 1;
+  private pending = new Map<number, Pending>();
+
+  constructor(private worker: Worker) {
+    worker.onmessage = (e: MessageEvent<SimResponse>) => {
+      const response = e.data;
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+      this.pending.delete(response.id);
+      if (response.type === 'error') {
+        pending.reject(new Error(response.message));
+      } else {
+        pending.resolve(response);
+      }
+    };
+    worker.onerror = (e) => {
+      const err = new Error(`Simulation worker error: ${e.message}`);
+      for (const pending of this.pending.values()) pending.reject(err);
+      this.pending.clear();
+    };
+  }
+
+  init(cfg: SimConfig): Promise<SimStatus> {
+    return this.requestState({ type: 'init', cfg });
+  }
+
+  reset(): Promise<SimStatus> {
+    return this.requestState({ type: 'reset' });
+  }
+
+  step(): Promise<SimStatus> {
+    return this.requestState({ type: 'step' });
+  }
+
+  runBatch(): Promise<SimStatus> {
+    return this.requestState({ type: 'batch' });
+  }
+
+  async getFieldValues(): Promise<Float64Array> {
+    const response = await this.request({ type: 'fieldValues' });
+    return response.type === 'fieldValues' ? response.values : new Float64Array(0);
+  }
+
+  async getMetrics(): Promise<SimMetrics> {
+    const response = await this.request({ type: 'metrics' });
+    if (response.type !== 'metrics') throw new Error('Unexpected response to metrics request');
+    return response.metrics;
+  }
+
+  async intervene(action: InterventionAction): Promise<Intervention | null> {
+    const response = await this.request({ type: 'intervene', action });
+    if (response.type !== 'intervened') throw new Error('Unexpected response to intervene request');
+    this.status = response.status;
+    this.primordia.apply(response.update);
+    return response.intervention;
+  }
+
+  async snapshot(): Promise<SimulatorSnapshot> {
+    const response = await this.request({ type: 'snapshot' });
+    if (response.type !== 'snapshot') throw new Error('Unexpected response to snapshot request');
+    return response.snapshot;
+  }
+
+  restore(snapshot: SimulatorSnapshot): Promise<SimStatus> {
+    return this.requestState({ type: 'restore', snapshot });
+  }
+
+  async frameAt(step: number, field: boolean): Promise<TimelineFrame> {
+    const response = await this.request({ type: 'frame', step, field });
+    if (response.type !== 'frame') throw new Error('Unexpected response to frame request');
+    const { count, clock } = response.frame;
+    return timelineFrame(response.frame, this.primordia.at(count, clock));
+  }
+
+  async runSweepPoint(cfg: SimConfig, late: number): Promise<number[]> {
+    const response = await this.request({ type: 'sweepRun', cfg, late });
+    if (response.type !== 'divergences') throw new Error('Unexpected response to sweepRun request');
+    return Array.from(response.values);
+  }
+
+  isComplete(): boolean {
+    return this.status?.complete ?? false;
+  }
+
+  dispose(): void {
+    this.worker.terminate();
+    const err = new Error('Simulation worker terminated');
+    for (const pending of this.pending.values()) pending.reject(err);
+    this.pending.clear();
+  }
+
+  private request(message: SimRequestBody): Promise<SimResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ ...message, id });
+    });
+  }
+
+  private async requestState(message: SimRequestBody): Promise<SimStatus> {
+    const response = await this.request(message);
+    if (response.type !== 'state') throw new Error(`Unexpected response to ${message.type} request`);
+    this.status = response.status;
+    this.primordia.apply(response.update);
+    return response.status;
+  }
+}
+
+// =============================================================================
+// Local Host (synchronous fallback)
+// =============================================================================
+
+/**
+ * Runs the simulator on the main thread. Each call completes synchronously;
+ * the returned promise is already resolved.
+ */
+export class LocalSimulatorHost implements SimulatorHost {
+  status: SimStatus | null = null;
+  readonly threaded = false;
+
+  private simulator = new Simulator();
+
+  get primordia(): PrimordiaView {
+    return this.simulator.primordia;
+  }
+
+  init(cfg: SimConfig): Promise<SimStatus> {
+    this.simulator.init(cfg);
+    this.simulator.reset();
+    return this.update();
+  }
+
+  reset(): Promise<SimStatus> {
+    this.simulator.reset();
+    return this.update();
+  }
+
+  step(): Promise<SimStatus> {
+    this.simulator.step();
+    return this.update();
+  }
+
+  runBatch(): Promise<SimStatus> {
+    this.simulator.runBatch();
+    return this.update();
+  }
+
+  getFieldValues(): Promise<Float64Array> {
+    return Promise.resolve(this.simulator.getFieldValues());
+  }
+
+  getMetrics(): Promise<SimMetrics> {
+    return Promise.resolve(collectMetrics(this.simulator));
+  }
+
+  intervene(action: InterventionAction): Promise<Intervention | null> {
+    const intervention = this.simulator.intervene(action);
+    this.status = collectStatus(this.simulator);
+    return Promise.resolve(intervention);
+  }
+
+  snapshot(): Promise<SimulatorSnapshot> {
+    return Promise.resolve(this.simulator.serialize());
+  }
+
+  restore(snapshot: SimulatorSnapshot): Promise<SimStatus> {
+    this.simulator.restore(snapshot);
+    return this.update();
+  }
+
+  frameAt(step: number, field: boolean): Promise<TimelineFrame> {
+    // Frames share the store's birth data, valid until the run is reset
+    const frame = collectFrame(this.simulator, step, field);
+    const primordia = new ClockedPrimordia(this.simulator.birthData, frame.count, frame.clock, compileClockLaws(frame.clock));
+    return Promise.resolve(timelineFrame(frame, primordia));
+  }
+
+  runSweepPoint(cfg: SimConfig, late: number): Promise<number[]> {
+    return Promise.resolve(runSweepPoint(cfg, late));
+  }
+
+  isComplete(): boolean {
+    return this.simulator.isComplete();
+  }
+
+  dispose(): void {
+    // Nothing to release
+  }
+
+  private update(): Promise<SimStatus> {
+    this.status = collectStatus(this.simulator);
+    return Promise.resolve(this.status);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Intervention logs: ablations and insertions in the order they are applied.
+ *
+ * A log is kept sorted by step; interventions at the same step apply in the
+ * order they were made.
+ */
+
+import type { Intervention } from './config';
+
+/**
+ * Insert into a log sorted by step, after every entry at the same step.
+ * Returns the insertion index.
+ */
+export function insertIntervention(log: Intervention[], intervention: Intervention): number {
+  let k = log.length;
+  while (k > 0 && log[k - 1].step > intervention.step) k--;
+  log.splice(k, 0, intervention);
+  return k;
+}
+
+/**
+ * Copy of a log in application order (stable sort by step).
+ */
+export function sortedInterventions(interventions: readonly Intervention[]): Intervention[] {
+  const log: Intervention[] = [];
+  for (const intervention of interventions) {
+    insertIntervention(log, { ...intervention });
+  }
+  return log;
+}
+
+/**
+ * One-line description, e.g. "step 120: ablate #87".
+ */
+export function describeIntervention(intervention: Intervention): string {
+  switch (intervention.type) {
+    case 'ablate':
+      return `step ${intervention.step}: ablate #${intervention.index}`;
+    case 'insert':
+      return `step ${intervention.step}: insert at ${intervention.thetaDeg.toFixed(2)}°`;
+  }
+}
@@ -2,10 +2,11 @@
  * Kernel implementations for the inhibition field.
  * 
  * Each kernel computes a contribution value for a given distance d.
+ * Anisotropic kernels also receive the displacement components.
  * The field at a candidate angle is the sum of contributions from all active primordia.
  */
 
-import { Parser } from 'expr-eval';
+import { Parser, type Expression } from 'expr-eval';
 import type { KernelConfig } from './config';
 
 // =============================================================================
@@ -22,13 +23,37 @@ export const CUSTOM_BAD_PENALTY = 1e30;
 // Compiled Kernel Interface
 // =============================================================================
 
+/**
+ * Contribution of a primordium displaced from the candidate point by
+ * (dx, dy) in the candidate's local frame: dx along the ring
+ * (counter-clockwise; arc length on the cylinder), dy outward (height on the
+ * cylinder; on the dome, the rest of the surface distance). dtheta is the signed angle difference in (-π, π], dr = r - R.
+ * d is the distance the isotropic kernels see (edge gap if edge-to-edge).
+ */
+export type DisplacementKernelFn = (d: number, dx: number, dy: number, dtheta: number, dr: number) => number;
+
+/** Custom-expression variables that make a kernel anisotropic */
+const DISPLACEMENT_VARIABLES = ['dx', 'dy', 'dtheta', 'dr'];
+
+/** Variables a custom kernel expression can read: distances and its params */
+export const CUSTOM_KERNEL_VARIABLES: readonly string[] = [
+  'd', ...DISPLACEMENT_VARIABLES, 'A', 'lambda', 'sigma', 'p', 'eps', 'd0'
+];
+
 export interface CompiledKernel {
   /** Kernel function: contribution for distance d */
   fn: (d: number) => number;
+  /** Anisotropic kernel of the displacement, used instead of fn (null if isotropic) */
+  fnDisplacement: DisplacementKernelFn | null;
   /** True IFF kernel.type === 'hardCoreExp' */
   hasHardCore: boolean;
   /** Hard-core radius (only meaningful if hasHardCore) */
   d0: number;
+  /**
+   * Re-read the numeric parameters of `kernel` (same type and expression as
+   * compiled) into fn and fnDisplacement, without compiling again.
+   */
+  refresh: (kernel: KernelConfig) => void;
 }
 
 // =============================================================================
@@ -48,44 +73,93 @@ const exprParser = new Parser();
  * - Fresh scope per compile; stable shape (no adding/removing keys at runtime)
  * - Only scope.d is mutated per call - no per-call allocations
  * - Runtime safety: try/catch + NaN/Infinity check
+ *
+ * Parameters live in closure variables that refresh() overwrites, so
+ * scheduled parameters never re-parse a custom expression.
  */
 export function compileKernel(kernel: KernelConfig): CompiledKernel {
   switch (kernel.type) {
     case 'exp': {
-      const { A, lambda } = kernel;
+      let { A, lambda } = kernel;
       return {
         fn: (d) => A * Math.exp(-d / lambda),
+        fnDisplacement: null,
         hasHardCore: false,
-        d0: 0
+        d0: 0,
+        refresh: (k) => {
+          if (k.type !== 'exp') return;
+          ({ A, lambda } = k);
+        }
       };
     }
 
     case 'gaussian': {
-      const { A, sigma } = kernel;
-      const twoSigmaSq = 2 * sigma * sigma;
+      let A = kernel.A;
+      let twoSigmaSq = 2 * kernel.sigma * kernel.sigma;
       return {
         fn: (d) => A * Math.exp(-(d * d) / twoSigmaSq),
+        fnDisplacement: null,
         hasHardCore: false,
-        d0: 0
+        d0: 0,
+        refresh: (k) => {
+          if (k.type !== 'gaussian') return;
+          A = k.A;
+          twoSigmaSq = 2 * k.sigma * k.sigma;
+        }
       };
     }
 
     case 'softPower': {
-      const { A, p, eps } = kernel;
+      let { A, p, eps } = kernel;
       return {
         fn: (d) => A / (Math.pow(d, p) + eps),
+        fnDisplacement: null,
         hasHardCore: false,
-        d0: 0
+        d0: 0,
+        refresh: (k) => {
+          if (k.type !== 'softPower') return;
+          ({ A, p, eps } = k);
+        }
       };
     }
 
     case 'hardCoreExp': {
       // hasHardCore strictly tied to this type
-      const { A, lambda, d0 } = kernel;
-      return {
+      let { A, lambda } = kernel;
+      const compiled: CompiledKernel = {
         fn: (d) => A * Math.exp(-d / lambda),
+        fnDisplacement: null,
         hasHardCore: true,
-        d0
+        d0: kernel.d0,
+        refresh: (k) => {
+          if (k.type !== 'hardCoreExp') return;
+          ({ A, lambda } = k);
+          compiled.d0 = k.d0;
+        }
+      };
+      return compiled;
+    }
+
+    case 'ellipticalExp': {
+      // Scale d by the elliptical-to-Euclidean ratio of the displacement, so
+      // edge-to-edge gaps are stretched the same way as centre distances
+      let { A, lambda } = kernel;
+      let invAspectSq = 1 / (kernel.aspect * kernel.aspect);
+      return {
+        fn: (d) => A * Math.exp(-d / lambda),
+        fnDisplacement: (d, dx, dy) => {
+          const euclidSq = dx * dx + dy * dy;
+          if (euclidSq === 0) return A * Math.exp(-d / lambda);
+          const stretch = Math.sqrt((dx * dx + dy * dy * invAspectSq) / euclidSq);
+          return A * Math.exp(-d * stretch / lambda);
+        },
+        hasHardCore: false,
+        d0: 0,
+        refresh: (k) => {
+          if (k.type !== 'ellipticalExp') return;
+          ({ A, lambda } = k);
+          invAspectSq = 1 / (k.aspect * k.aspect);
+        }
       };
     }
 
@@ -93,42 +167,155 @@ export function compileKernel(kernel: KernelConfig): CompiledKernel {
       // Runtime safety: try/catch + NaN/Infinity check
       const compiled = exprParser.parse(kernel.expr);
       // Fresh scope per compile; stable shape (no adding/removing keys at runtime).
-      // Only scope.d is mutated per call - no per-call allocations.
-      const scope = { ...kernel.params, d: 0 };
-      return {
-        fn: (d) => {
-          try {
-            scope.d = d;  // only mutation - no object creation
-            const result = compiled.evaluate(scope);
-            // If result is not finite, return penalty
-            if (!Number.isFinite(result)) {
-              return CUSTOM_BAD_PENALTY;
-            }
-            return result;
-          } catch {
+      // Only the distance variables are mutated per call - no per-call allocations.
+      const scope = { ...kernel.params, d: 0, dx: 0, dy: 0, dtheta: 0, dr: 0 };
+      const evaluate = () => {
+        try {
+          const result = compiled.evaluate(scope);
+          // If result is not finite, return penalty
+          if (!Number.isFinite(result)) {
             return CUSTOM_BAD_PENALTY;
           }
+          return result;
+        } catch {
+          return CUSTOM_BAD_PENALTY;
+        }
+      };
+      const anisotropic = expressionUsesDisplacement(compiled);
+      return {
+        fn: (d) => {
+          scope.d = d;  // only mutation - no object creation
+          return evaluate();
         },
+        fnDisplacement: anisotropic
+          ? (d, dx, dy, dtheta, dr) => {
+              scope.d = d;
+              scope.dx = dx;
+              scope.dy = dy;
+              scope.dtheta = dtheta;
+              scope.dr = dr;
+              return evaluate();
+            }
+          : null,
         hasHardCore: false,
-        d0: 0
+        d0: 0,
+        refresh: (k) => {
+          if (k.type !== 'custom') return;
+          Object.assign(scope, k.params);
+        }
       };
     }
   }
 }
 
+// =============================================================================
+// Cutoff Distance
+// =============================================================================
+
+/** Samples used to estimate the cutoff of custom kernels */
+const CUTOFF_SCAN_SAMPLES = 2048;
+
+/**
+ * Distance beyond which the kernel's magnitude stays below `tolerance`.
+ *
+ * Closed form for the built-in kernels (all decay monotonically in d);
+ * custom kernels are scanned from maxDistance inward on a uniform grid
+ * (no cutoff if they use the displacement components).
+ * Never smaller than the hard-core radius. Returns Infinity if the kernel
+ * is still above tolerance at maxDistance.
+ */
+export function kernelCutoffDistance(
+  kernel: KernelConfig,
+  compiled: CompiledKernel,
+  tolerance: number,
+  maxDistance: number
+): number {
+  let cutoff: number;
+
+  switch (kernel.type) {
+    case 'exp':
+    case 'hardCoreExp': {
+      const ratio = Math.abs(kernel.A) / tolerance;
+      cutoff = ratio > 1 ? kernel.lambda * Math.log(ratio) : 0;
+      break;
+    }
+
+    case 'ellipticalExp': {
+      // Decays slowest along the longer axis, λ·max(1, aspect)
+      const ratio = Math.abs(kernel.A) / tolerance;
+      cutoff = ratio > 1 ? kernel.lambda * Math.max(1, kernel.aspect) * Math.log(ratio) : 0;
+      break;
+    }
+
+    case 'gaussian': {
+      const ratio = Math.abs(kernel.A) / tolerance;
+      cutoff = ratio > 1 ? kernel.sigma * Math.sqrt(2 * Math.log(ratio)) : 0;
+      break;
+    }
+
+    case 'softPower': {
+      // |A| / (d^p + eps) < tol  <=>  d > (|A|/tol - eps)^(1/p)
+      const base = Math.abs(kernel.A) / tolerance - kernel.eps;
+      cutoff = base > 0 ? Math.pow(base, 1 / kernel.p) : 0;
+      break;
+    }
+
+    case 'custom': {
+      // Direction-dependent expressions cannot be scanned along d alone
+      if (compiled.fnDisplacement) return Infinity;
+      cutoff = 0;
+      const step = maxDistance / CUTOFF_SCAN_SAMPLES;
+      for (let i = CUTOFF_SCAN_SAMPLES; i >= 0; i--) {
+        const value = compiled.fn(i * step);
+        if (Math.abs(value) >= tolerance && value !== CUSTOM_BAD_PENALTY) {
+          // One sample of slack: the crossing lies within the next interval
+          cutoff = i === CUTOFF_SCAN_SAMPLES ? Infinity : (i + 1) * step;
+          break;
+        }
+      }
+      break;
+    }
+  }
+
+  if (cutoff > maxDistance) return Infinity;
+  return compiled.hasHardCore ? Math.max(cutoff, compiled.d0) : cutoff;
+}
+
 // =============================================================================
 // Expression Validation
 // =============================================================================
 
 /**
- * Validate a custom expression string.
+ * Validate a custom expression string, and if `variables` is given, that it
+ * reads no other variables (an unknown one would make every evaluation throw).
  * Returns null if valid, or an error message string if invalid.
  */
-export function validateExpression(expr: string): string | null {
+export function validateExpression(expr: string, variables?: readonly string[]): string | null {
+  let expression: Expression;
   try {
-    exprParser.parse(expr);
-    return null;
+    expression = exprParser.parse(expr);
   } catch (e) {
     return e instanceof Error ? e.message : String(e);
   }
+  const unknown = variables ? expression.variables().filter((name) => !variables.includes(name)) : [];
+  if (unknown.length > 0) {
+    return `unknown variable${unknown.length === 1 ? '' : 's'} ${unknown.join(', ')} (expected ${variables!.join(', ')})`;
+  }
+  return null;
+}
+
+/**
+ * True if a custom kernel expression reads the displacement components
+ * (dx, dy, dtheta, dr). False for expressions that do not parse.
+ */
+export function usesDisplacement(expr: string): boolean {
+  try {
+    return expressionUsesDisplacement(exprParser.parse(expr));
+  } catch {
+    return false;
+  }
+}
+
+function expressionUsesDisplacement(expression: Expression): boolean {
+  return expression.variables().some((name) => DISPLACEMENT_VARIABLES.includes(name));
 }
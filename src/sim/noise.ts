@@ -0,0 +1,143 @@
+/**
+ * Noise sources, each with its own random stream.
+ *
+ * The angle stream is seeded with noise.seed itself (so runs from before the
+ * other sources existed are unchanged); the others use seeds derived from
+ * it. A source draws only while enabled, so toggling one never shifts the
+ * sequence of another.
+ */
+
+import type { NoiseConfig } from './config';
+import { GaussianRNG, deriveSeed, type GaussianRNGState } from './prng';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Generator state of every stream (for snapshots) */
+export interface NoiseState {
+  angle: GaussianRNGState;
+  birthRadius: GaussianRNGState;
+  amplitude: GaussianRNGState;
+  timing: GaussianRNGState;
+}
+
+/** Stream numbers passed to deriveSeed (the angle stream uses the seed as is) */
+const BIRTH_RADIUS_STREAM = 1;
+const AMPLITUDE_STREAM = 2;
+const TIMING_STREAM = 3;
+
+// =============================================================================
+// Noise Streams
+// =============================================================================
+
+export class NoiseStreams {
+  private cfg: NoiseConfig;
+  private angle: GaussianRNG;
+  private birthRadius: GaussianRNG;
+  private amplitude: GaussianRNG;
+  private timing: GaussianRNG;
+
+  constructor(cfg: NoiseConfig) {
+    this.cfg = cfg;
+    this.angle = new GaussianRNG(cfg.seed);
+    this.birthRadius = new GaussianRNG(deriveSeed(cfg.seed, BIRTH_RADIUS_STREAM));
+    this.amplitude = new GaussianRNG(deriveSeed(cfg.seed, AMPLITUDE_STREAM));
+    this.timing = new GaussianRNG(deriveSeed(cfg.seed, TIMING_STREAM));
+  }
+
+  /**
+   * Restart every stream from its seed.
+   */
+  reset(): void {
+    const seed = this.cfg.seed;
+    this.angle.reset(seed);
+    this.birthRadius.reset(deriveSeed(seed, BIRTH_RADIUS_STREAM));
+    this.amplitude.reset(deriveSeed(seed, AMPLITUDE_STREAM));
+    this.timing.reset(deriveSeed(seed, TIMING_STREAM));
+  }
+
+  /**
+   * Offset (radians) to add to θ*; 0 with angular noise off.
+   */
+  angleOffset(): number {
+    if (!this.cfg.enabled) return 0;
+    if (this.cfg.model === 'vonMises') return sampleVonMises(this.angle, this.cfg.kappa);
+    return this.angle.next() * (this.cfg.sigmaThetaDeg * Math.PI / 180);
+  }
+
+  /**
+   * Birth radius for a primordium initiated on the ring R (never negative).
+   */
+  birthRadiusAt(R: number): number {
+    const source = this.cfg.birthRadius;
+    if (!source.enabled) return R;
+    return Math.max(0, R + source.sigma * this.birthRadius.next());
+  }
+
+  /**
+   * Kernel amplitude factor of a new primordium (1 with jitter off).
+   */
+  amplitudeFactor(): number {
+    const source = this.cfg.amplitude;
+    return source.enabled ? logNormalFactor(this.amplitude, source.sigma) : 1;
+  }
+
+  /**
+   * Factor on the initiation threshold for one test (1 with timing noise off).
+   */
+  thresholdFactor(): number {
+    const source = this.cfg.timing;
+    return source.enabled ? logNormalFactor(this.timing, source.sigma) : 1;
+  }
+
+  getState(): NoiseState {
+    return {
+      angle: this.angle.getState(),
+      birthRadius: this.birthRadius.getState(),
+      amplitude: this.amplitude.getState(),
+      timing: this.timing.getState()
+    };
+  }
+
+  setState(state: NoiseState): void {
+    this.angle.setState(state.angle);
+    this.birthRadius.setState(state.birthRadius);
+    this.amplitude.setState(state.amplitude);
+    this.timing.setState(state.timing);
+  }
+}
+
+// =============================================================================
+// Samplers
+// =============================================================================
+
+/** exp(σZ - σ²/2): log-normal with mean 1 */
+function logNormalFactor(rng: GaussianRNG, sigma: number): number {
+  return Math.exp(sigma * rng.next() - 0.5 * sigma * sigma);
+}
+
+/**
+ * Von Mises sample in (-π, π] with mean 0 and concentration κ, by the
+ * rejection method of Best & Fisher (1979). κ near 0 is uniform on the circle.
+ */
+export function sampleVonMises(rng: GaussianRNG, kappa: number): number {
+  if (kappa < 1e-8) return Math.PI * (2 * rng.uniform() - 1);
+
+  const tau = 1 + Math.sqrt(1 + 4 * kappa * kappa);
+  const rho = (tau - Math.sqrt(2 * tau)) / (2 * kappa);
+  const r = (1 + rho * rho) / (2 * rho);
+
+  for (;;) {
+    const u1 = rng.uniform();
+    const u2 = rng.uniform();
+    const u3 = rng.uniform();
+    const z = Math.cos(Math.PI * u1);
+    const f = (1 + r * z) / (r + z);
+    const c = kappa * (r - f);
+    if (c * (2 - c) > u2 || Math.log(c / u2) + 1 - c >= 0) {
+      const theta = Math.acos(Math.max(-1, Math.min(1, f)));
+      return u3 > 0.5 ? theta : -theta;
+    }
+  }
+}
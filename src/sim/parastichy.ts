@@ -0,0 +1,246 @@
+/**
+ * Parastichy detection.
+ *
+ * Builds a nearest-neighbour contact graph over the primordia and groups the
+ * contact edges into clockwise and counter-clockwise spiral families.
+ *
+ * A contact edge joins primordia i and j (i < j). Its index difference n = j - i
+ * identifies the family: edges sharing n lie on n parallel spirals.
+ */
+
+import type { PrimordiaView } from './primordia';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Winding direction as drawn on the canvas (y axis pointing down), following
+ * a spiral inward from older to younger primordia.
+ */
+export type Chirality = 'cw' | 'ccw';
+
+export interface ParastichyFamily {
+  n: number;               // index difference = number of spirals in the family
+  chirality: Chirality;
+  edgeCount: number;       // contact edges assigned to this family
+  spirals: number[][];     // polylines as primordium indices, oldest first
+}
+
+export interface ParastichyResult {
+  cw: ParastichyFamily | null;
+  ccw: ParastichyFamily | null;
+  pair: [number, number] | null;  // [smaller, larger] spiral counts, e.g. [13, 21]
+  edgeCount: number;              // total contact edges in the graph
+}
+
+export interface ParastichyOptions {
+  window?: number;          // analyse only the most recent N primordia (default: all)
+  neighbours?: number;      // contacts per primordium (default: 4)
+  cylinderRadius?: number;  // set for cylinder geometry (r - R is height on the stem)
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Detect the dominant clockwise and counter-clockwise parastichy families.
+ */
+export function detectParastichies(
+  primordia: PrimordiaView,
+  options: ParastichyOptions = {}
+): ParastichyResult {
+  const k = options.neighbours ?? 4;
+  const start = Math.max(0, primordia.count - (options.window ?? primordia.count));
+  const count = primordia.count - start;
+
+  if (count < k + 1) {
+    return { cw: null, ccw: null, pair: null, edgeCount: 0 };
+  }
+
+  // Planar positions. The cylinder is unrolled to (arc, height) with ghost
+  // copies one circumference to either side, so contacts wrap across the seam.
+  const R = options.cylinderRadius;
+  const copies = R !== undefined ? 3 : 1;
+  const xs = new Float64Array(count * copies);
+  const ys = new Float64Array(count * copies);
+  const owner = new Int32Array(count * copies);
+  for (let i = 0; i < count; i++) {
+    const r = primordia.radius(start + i);
+    if (R !== undefined) {
+      const circumference = 2 * Math.PI * R;
+      for (let c = 0; c < copies; c++) {
+        xs[c * count + i] = R * primordia.theta(start + i) + (c - 1) * circumference;
+        ys[c * count + i] = r - R;
+        owner[c * count + i] = i;
+      }
+    } else {
+      xs[i] = r * primordia.cos(start + i);
+      ys[i] = r * primordia.sin(start + i);
+      owner[i] = i;
+    }
+  }
+
+  const edges = buildContactEdges(xs, ys, owner, count, k);
+
+  // Group edges by signed index difference (+n = cw, -n = ccw)
+  const families = new Map<number, number[]>();
+  for (const [a, b] of edges) {
+    let dTheta = primordia.theta(start + b) - primordia.theta(start + a);
+    dTheta -= 2 * Math.PI * Math.round(dTheta / (2 * Math.PI));  // wrap to [-π, π]
+    const key = dTheta >= 0 ? b - a : a - b;
+    let list = families.get(key);
+    if (!list) {
+      list = [];
+      families.set(key, list);
+    }
+    list.push(start + a);
+  }
+
+  // Dominant family per chirality = most contact edges
+  let cwKey = 0;
+  let ccwKey = 0;
+  for (const [key, list] of families) {
+    if (key > 0 && (cwKey === 0 || list.length > families.get(cwKey)!.length)) cwKey = key;
+    if (key < 0 && (ccwKey === 0 || list.length > families.get(ccwKey)!.length)) ccwKey = key;
+  }
+
+  const cw = cwKey !== 0 ? buildFamily(cwKey, 'cw', families.get(cwKey)!) : null;
+  const ccw = ccwKey !== 0 ? buildFamily(-ccwKey, 'ccw', families.get(ccwKey)!) : null;
+  const pair: [number, number] | null =
+    cw && ccw ? [Math.min(cw.n, ccw.n), Math.max(cw.n, ccw.n)] : null;
+
+  return { cw, ccw, pair, edgeCount: edges.length };
+}
+
+/**
+ * Chain the edges of one family (each starting at an older primordium index)
+ * into spiral polylines.
+ */
+function buildFamily(n: number, chirality: Chirality, edgeStarts: number[]): ParastichyFamily {
+  const starts = new Set(edgeStarts);
+  const spirals: number[][] = [];
+
+  for (const i of edgeStarts) {
+    // Only begin a polyline at the oldest primordium of a chain
+    if (starts.has(i - n)) continue;
+    const spiral = [i];
+    let j = i;
+    while (starts.has(j)) {
+      j += n;
+      spiral.push(j);
+    }
+    spirals.push(spiral);
+  }
+
+  return { n, chirality, edgeCount: edgeStarts.length, spirals };
+}
+
+// =============================================================================
+// Nearest-Neighbour Contact Graph
+// =============================================================================
+
+/**
+ * Build the undirected k-nearest-neighbour graph using a uniform grid.
+ * Points [0, queryCount) are queried; owner[] maps every point (including
+ * ghost copies) back to its query index. Returns unique edges as [i, j], i < j.
+ */
+function buildContactEdges(
+  xs: Float64Array,
+  ys: Float64Array,
+  owner: Int32Array,
+  queryCount: number,
+  k: number
+): Array<[number, number]> {
+  const count = xs.length;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < count; i++) {
+    if (xs[i] < minX) minX = xs[i];
+    if (xs[i] > maxX) maxX = xs[i];
+    if (ys[i] < minY) minY = ys[i];
+    if (ys[i] > maxY) maxY = ys[i];
+  }
+
+  // Roughly one point per cell
+  const spanX = Math.max(maxX - minX, 1e-9);
+  const spanY = Math.max(maxY - minY, 1e-9);
+  const cellSize = Math.sqrt((spanX * spanY) / count) || 1;
+  const gridW = Math.max(1, Math.ceil(spanX / cellSize));
+  const gridH = Math.max(1, Math.ceil(spanY / cellSize));
+
+  const cellOf = (i: number): number => {
+    const gx = Math.min(gridW - 1, Math.floor((xs[i] - minX) / cellSize));
+    const gy = Math.min(gridH - 1, Math.floor((ys[i] - minY) / cellSize));
+    return gy * gridW + gx;
+  };
+
+  // Counting sort of points into cells
+  const cellStart = new Int32Array(gridW * gridH + 1);
+  const pointCell = new Int32Array(count);
+  for (let i = 0; i < count; i++) {
+    pointCell[i] = cellOf(i);
+    cellStart[pointCell[i] + 1]++;
+  }
+  for (let c = 0; c < gridW * gridH; c++) cellStart[c + 1] += cellStart[c];
+  const fill = cellStart.slice(0, gridW * gridH);
+  const cellItems = new Int32Array(count);
+  for (let i = 0; i < count; i++) cellItems[fill[pointCell[i]]++] = i;
+
+  const seen = new Set<number>();
+  const edges: Array<[number, number]> = [];
+  const bestIdx = new Int32Array(k);
+  const bestDist = new Float64Array(k);
+  const maxRing = Math.max(gridW, gridH);
+
+  for (let i = 0; i < queryCount; i++) {
+    let found = 0;
+    const gx = pointCell[i] % gridW;
+    const gy = Math.floor(pointCell[i] / gridW);
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let cy = gy - ring; cy <= gy + ring; cy++) {
+        if (cy < 0 || cy >= gridH) continue;
+        for (let cx = gx - ring; cx <= gx + ring; cx++) {
+          if (cx < 0 || cx >= gridW) continue;
+          // Only the cells on the ring's border are new
+          if (Math.abs(cx - gx) !== ring && Math.abs(cy - gy) !== ring) continue;
+          const c = cy * gridW + cx;
+          for (let s = cellStart[c]; s < cellStart[c + 1]; s++) {
+            const j = cellItems[s];
+            if (owner[j] === i) continue;
+            const dx = xs[j] - xs[i];
+            const dy = ys[j] - ys[i];
+            const d2 = dx * dx + dy * dy;
+            if (found === k && d2 >= bestDist[k - 1]) continue;
+            // Insertion into the sorted top-k list
+            let pos = found < k ? found++ : k - 1;
+            while (pos > 0 && bestDist[pos - 1] > d2) {
+              bestDist[pos] = bestDist[pos - 1];
+              bestIdx[pos] = bestIdx[pos - 1];
+              pos--;
+            }
+            bestDist[pos] = d2;
+            bestIdx[pos] = j;
+          }
+        }
+      }
+      // Cells beyond this ring are at least ring * cellSize away
+      if (found === k && bestDist[k - 1] <= (ring * cellSize) ** 2) break;
+    }
+
+    for (let m = 0; m < found; m++) {
+      const j = owner[bestIdx[m]];
+      const a = Math.min(i, j);
+      const b = Math.max(i, j);
+      const key = a * queryCount + b;
+      if (!seen.has(key)) {
+        seen.add(key);
+        edges.push([a, b]);
+      }
+    }
+  }
+
+  return edges;
+}
@@ -0,0 +1,150 @@
+/**
+ * Continuous placement solver.
+ *
+ * Finds the global minimum of a function on the circle: every local minimum
+ * of a coarse grid is bracketed by its two neighbours and refined with
+ * Brent's method, and the lowest refined minimum wins.
+ */
+
+import { wrapAngle } from './prng';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PlacementResult {
+  theta: number;    // global minimum, in [0, 2π)
+  field: number;    // function value at theta
+  gap: number;      // runner-up minimum minus global minimum (Infinity if unique, 0 if flat)
+  minima: number;   // local minima found on the grid
+}
+
+// =============================================================================
+// Brent's Method
+// =============================================================================
+
+const CGOLD = 0.3819660112501051;   // 2 − φ, golden-section step
+const SQRT_EPS = 1.4901161193847656e-8;
+const MAX_ITERATIONS = 100;
+
+/**
+ * Minimize f on [a, b] starting from x0 (f(x0) = f0 known, a < x0 < b),
+ * combining parabolic steps with golden-section fallback (Brent 1973).
+ * Never returns a point worse than x0.
+ */
+export function brentMinimize(
+  f: (x: number) => number,
+  a: number,
+  b: number,
+  x0: number,
+  f0: number,
+  tolerance: number
+): { x: number; fx: number } {
+  let x = x0, w = x0, v = x0;
+  let fx = f0, fw = f0, fv = f0;
+  let d = 0;
+  let e = 0;
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const xm = 0.5 * (a + b);
+    const tol1 = SQRT_EPS * Math.abs(x) + tolerance;
+    const tol2 = 2 * tol1;
+    if (Math.abs(x - xm) <= tol2 - 0.5 * (b - a)) break;
+
+    let golden = true;
+    if (Math.abs(e) > tol1) {
+      // Parabola through x, w, v
+      const r = (x - w) * (fx - fv);
+      let q = (x - v) * (fx - fw);
+      let p = (x - v) * q - (x - w) * r;
+      q = 2 * (q - r);
+      if (q > 0) p = -p;
+      else q = -q;
+      const eOld = e;
+      e = d;
+      if (Math.abs(p) < Math.abs(0.5 * q * eOld) && p > q * (a - x) && p < q * (b - x)) {
+        d = p / q;
+        const u = x + d;
+        if (u - a < tol2 || b - u < tol2) d = xm >= x ? tol1 : -tol1;
+        golden = false;
+      }
+    }
+    if (golden) {
+      e = (x >= xm ? a : b) - x;
+      d = CGOLD * e;
+    }
+
+    const u = Math.abs(d) >= tol1 ? x + d : x + (d >= 0 ? tol1 : -tol1);
+    const fu = f(u);
+
+    if (fu <= fx) {
+      if (u >= x) a = x;
+      else b = x;
+      v = w; fv = fw;
+      w = x; fw = fx;
+      x = u; fx = fu;
+    } else {
+      if (u < x) a = u;
+      else b = u;
+      if (fu <= fw || w === x) {
+        v = w; fv = fw;
+        w = u; fw = fu;
+      } else if (fu <= fv || v === x || v === w) {
+        v = u; fv = fu;
+      }
+    }
+  }
+
+  return { x, fx };
+}
+
+// =============================================================================
+// Global Minimum on the Circle
+// =============================================================================
+
+/**
+ * Global minimum of f on the circle (f is only called with angles in
+ * [0, 2π)). `grid` is scratch space whose length sets the coarse grid;
+ * minima narrower than two grid spacings may be missed.
+ */
+export function minimizeOnCircle(
+  f: (theta: number) => number,
+  grid: Float64Array,
+  tolerance: number
+): PlacementResult {
+  const periodic = (theta: number) => f(wrapAngle(theta));
+  const n = grid.length;
+  const step = (2 * Math.PI) / n;
+  for (let k = 0; k < n; k++) {
+    grid[k] = f(k * step);
+  }
+
+  let best = Infinity;
+  let bestTheta = 0;
+  let runnerUp = Infinity;
+  let minima = 0;
+
+  for (let k = 0; k < n; k++) {
+    const prev = grid[k === 0 ? n - 1 : k - 1];
+    const next = grid[k === n - 1 ? 0 : k + 1];
+    // <= on one side so a plateau yields one minimum
+    if (!(grid[k] <= prev && grid[k] < next)) continue;
+
+    minima++;
+    const { x, fx } = brentMinimize(periodic, (k - 1) * step, (k + 1) * step, k * step, grid[k], tolerance);
+    if (fx < best) {
+      runnerUp = best;
+      best = fx;
+      bestTheta = x;
+    } else if (fx < runnerUp) {
+      runnerUp = fx;
+    }
+  }
+
+  // Flat field: no strict minimum, every angle is as good as any other
+  if (minima === 0) {
+    return { theta: 0, field: grid[0], gap: 0, minima: 0 };
+  }
+
+  return { theta: wrapAngle(bestTheta), field: best, gap: runnerUp - best, minima };
+}
@@ -0,0 +1,289 @@
+/**
+ * Primordium storage.
+ *
+ * Primordia are kept in birth order as a struct of typed arrays. Only birth
+ * data is stored; the radius is derived from age through the drift law, so
+ * advancing time costs nothing per primordium and inactive primordia are
+ * never touched. Setting the clock back to an earlier step (with count cut to
+ * the primordia born by then) shows the pattern as it was at that step.
+ */
+
+import type { SimConfig } from './config';
+import { compileDrift, type CompiledDrift } from './drift';
+import { compileSize, type CompiledSize } from './size';
+
+// =============================================================================
+// Read-Only View
+// =============================================================================
+
+/**
+ * Read-only access to primordia by birth index (0 = oldest).
+ * Used by rendering, metrics and analysis.
+ */
+export interface PrimordiaView {
+  readonly count: number;
+  /** Angle in radians (fixed at birth) */
+  theta(i: number): number;
+  /** Cached cos(theta) */
+  cos(i: number): number;
+  /** Cached sin(theta) */
+  sin(i: number): number;
+  /** Current radial distance; on a cylinder, R + height */
+  radius(i: number): number;
+  /** Step at which the primordium was initiated (birth time = birthStep * dt) */
+  birthStep(i: number): number;
+  /** Current organ radius (0 for point primordia) */
+  size(i: number): number;
+  /** True once the primordium has been ablated (it no longer inhibits) */
+  ablated(i: number): boolean;
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+export class PrimordiumStore implements PrimordiaView {
+  count: number = 0;
+
+  // Birth data, valid for indices < count
+  readonly thetas: Float64Array;
+  readonly cosines: Float64Array;
+  readonly sines: Float64Array;
+  readonly birthSteps: Float64Array;
+  readonly birthRadii: Float64Array;
+  readonly birthTravel: Float64Array;   // drift coordinate at birth
+  readonly amplitudes: Float64Array;    // kernel amplitude factor (noise)
+  readonly ablatedSteps: Float64Array;  // step of ablation (Infinity = never)
+  /** [index, step] of every ablation, in the order they were made */
+  readonly ablations: [number, number][] = [];
+
+  // Clock: current step, drift coordinate and law (set by the simulator)
+  private stepCount: number = 0;
+  private travel: number = 0;
+  private drift: CompiledDrift;
+  private sizeLaw: CompiledSize;
+  private dt: number;
+
+  constructor(capacity: number, drift: CompiledDrift, sizeLaw: CompiledSize, dt: number) {
+    this.thetas = new Float64Array(capacity);
+    this.cosines = new Float64Array(capacity);
+    this.sines = new Float64Array(capacity);
+    this.birthSteps = new Float64Array(capacity);
+    this.birthRadii = new Float64Array(capacity);
+    this.birthTravel = new Float64Array(capacity);
+    this.amplitudes = new Float64Array(capacity);
+    this.ablatedSteps = new Float64Array(capacity).fill(Infinity);
+    this.drift = drift;
+    this.sizeLaw = sizeLaw;
+    this.dt = dt;
+  }
+
+  get capacity(): number {
+    return this.thetas.length;
+  }
+
+  clear(): void {
+    this.ablatedSteps.fill(Infinity, 0, this.count);
+    this.ablations.length = 0;
+    this.count = 0;
+    this.stepCount = 0;
+    this.travel = 0;
+  }
+
+  /**
+   * Set the current time and drift law that radii are derived from.
+   */
+  setClock(stepCount: number, travel: number, drift: CompiledDrift): void {
+    this.stepCount = stepCount;
+    this.travel = travel;
+    this.drift = drift;
+  }
+
+  /**
+   * Append a primordium born now at radius birthR, its kernel scaled by
+   * `amplitude`. Returns its index.
+   */
+  add(theta: number, birthR: number, amplitude: number = 1): number {
+    const i = this.count++;
+    this.thetas[i] = theta;
+    this.cosines[i] = Math.cos(theta);
+    this.sines[i] = Math.sin(theta);
+    this.birthSteps[i] = this.stepCount;
+    this.birthRadii[i] = birthR;
+    this.birthTravel[i] = this.travel;
+    this.amplitudes[i] = amplitude;
+    return i;
+  }
+
+  /**
+   * Number of primordia born at or before `step` (birth steps never
+   * decrease with index, so they form a prefix).
+   */
+  countBornBy(step: number): number {
+    let lo = 0;
+    let hi = this.count;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.birthSteps[mid] <= step) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  /**
+   * Replace the contents with saved birth data (cos/sin are recomputed from
+   * theta exactly as add() does) and [index, step] ablation pairs. The clock
+   * is set separately.
+   */
+  load(
+    thetas: Float64Array,
+    birthSteps: Float64Array,
+    birthRadii: Float64Array,
+    birthTravel: Float64Array,
+    amplitudes: Float64Array,
+    ablated: readonly (readonly [number, number])[]
+  ): void {
+    const count = thetas.length;
+    if (count > this.capacity) {
+      throw new Error(`Cannot load ${count} primordia into a store of ${this.capacity}`);
+    }
+    this.clear();
+    for (let i = 0; i < count; i++) {
+      this.thetas[i] = thetas[i];
+      this.cosines[i] = Math.cos(thetas[i]);
+      this.sines[i] = Math.sin(thetas[i]);
+    }
+    this.birthSteps.set(birthSteps);
+    this.birthRadii.set(birthRadii);
+    this.birthTravel.set(birthTravel);
+    this.amplitudes.set(amplitudes);
+    for (const [i, step] of ablated) {
+      if (Number.isInteger(i) && i >= 0 && i < count) {
+        this.ablatedSteps[i] = step;
+        this.ablations.push([i, step]);
+      }
+    }
+    this.count = count;
+  }
+
+  /**
+   * Mark primordium i as ablated from the current step on.
+   */
+  ablate(i: number): void {
+    this.ablatedSteps[i] = this.stepCount;
+    this.ablations.push([i, this.stepCount]);
+  }
+
+  theta(i: number): number {
+    return this.thetas[i];
+  }
+
+  cos(i: number): number {
+    return this.cosines[i];
+  }
+
+  sin(i: number): number {
+    return this.sines[i];
+  }
+
+  birthStep(i: number): number {
+    return this.birthSteps[i];
+  }
+
+  radius(i: number): number {
+    return this.drift.radius(
+      this.birthRadii[i],
+      this.travel - this.birthTravel[i],
+      (this.stepCount - this.birthSteps[i]) * this.dt
+    );
+  }
+
+  ablated(i: number): boolean {
+    return this.ablatedSteps[i] <= this.stepCount;
+  }
+
+  size(i: number): number {
+    if (!this.sizeLaw.enabled) return 0;
+    return this.sizeLaw.size((this.stepCount - this.birthSteps[i]) * this.dt, this.radius(i));
+  }
+}
+
+// =============================================================================
+// Clocked View
+// =============================================================================
+
+/** Birth data arrays by index, as PrimordiumStore keeps them */
+export type PrimordiaBirthData = Pick<
+  PrimordiumStore,
+  'thetas' | 'cosines' | 'sines' | 'birthSteps' | 'birthRadii' | 'birthTravel' | 'ablatedSteps' | 'ablations'
+>;
+
+/**
+ * What radii, sizes and ablation flags follow from at one step: the store's
+ * clock and the config values (scheduled ones included) its drift and size
+ * laws are compiled from.
+ */
+export interface PrimordiaClock {
+  stepCount: number;
+  travel: number;
+  laws: Pick<SimConfig, 'v' | 'dt' | 'drift' | 'size'>;
+}
+
+/** Drift and size laws compiled from a clock's config values */
+export interface ClockLaws {
+  drift: CompiledDrift;
+  sizeLaw: CompiledSize;
+}
+
+export function compileClockLaws(clock: PrimordiaClock): ClockLaws {
+  return { drift: compileDrift(clock.laws), sizeLaw: compileSize(clock.laws) };
+}
+
+/**
+ * Primordia [0, count) of some birth data seen at `clock`, derived exactly
+ * as PrimordiumStore derives them. Lets the main thread mirror the worker's
+ * primordia from birth data and the clock alone.
+ */
+export class ClockedPrimordia implements PrimordiaView {
+  constructor(
+    private data: PrimordiaBirthData,
+    readonly count: number,
+    private clock: PrimordiaClock,
+    private laws: ClockLaws
+  ) {}
+
+  theta(i: number): number {
+    return this.data.thetas[i];
+  }
+
+  cos(i: number): number {
+    return this.data.cosines[i];
+  }
+
+  sin(i: number): number {
+    return this.data.sines[i];
+  }
+
+  birthStep(i: number): number {
+    return this.data.birthSteps[i];
+  }
+
+  radius(i: number): number {
+    const { stepCount, travel, laws } = this.clock;
+    return this.laws.drift.radius(
+      this.data.birthRadii[i],
+      travel - this.data.birthTravel[i],
+      (stepCount - this.data.birthSteps[i]) * laws.dt
+    );
+  }
+
+  ablated(i: number): boolean {
+    return this.data.ablatedSteps[i] <= this.clock.stepCount;
+  }
+
+  size(i: number): number {
+    if (!this.laws.sizeLaw.enabled) return 0;
+    const { stepCount, laws } = this.clock;
+    return this.laws.sizeLaw.size((stepCount - this.data.birthSteps[i]) * laws.dt, this.radius(i));
+  }
+}
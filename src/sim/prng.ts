@@ -1,13 +1,26 @@
 /**
  * Seeded PRNG and Gaussian noise generator.
  * 
- * Used for deterministic noise in angle placement.
+ * Used for deterministic noise (see noise.ts for the noise sources).
  */
 
 // =============================================================================
 // Mulberry32 PRNG
 // =============================================================================
 
+/** Increment added to the mulberry32 state before each output */
+const MULBERRY32_INCREMENT = 0x6D2B79F5;
+
+/**
+ * Output of mulberry32 for an (already incremented) state.
+ */
+function mulberry32Output(state: number): number {
+  let t = state;
+  t = Math.imul(t ^ t >>> 15, t | 1);
+  t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+  return ((t ^ t >>> 14) >>> 0) / 4294967296;
+}
+
 /**
  * Creates a seeded PRNG using mulberry32 algorithm.
  * 
@@ -16,28 +29,53 @@
  * To reset, create a new mulberry32(seed) instance.
  */
 export function mulberry32(seed: number): () => number {
-  return () => {
-    let t = seed += 0x6D2B79F5;
-    t = Math.imul(t ^ t >>> 15, t | 1);
-    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
-    return ((t ^ t >>> 14) >>> 0) / 4294967296;
-  };
+  return () => mulberry32Output(seed += MULBERRY32_INCREMENT);
+}
+
+/**
+ * Seed of an independent stream derived from a base seed (a 32-bit
+ * avalanche hash of both), so streams of one seed do not overlap in practice.
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  let h = Math.imul(seed ^ Math.imul(stream, 0x9E3779B9), 0x85EBCA6B);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xC2B2AE35);
+  h ^= h >>> 16;
+  return h >>> 0;
 }
 
 // =============================================================================
 // Gaussian RNG (Box-Muller)
 // =============================================================================
 
+/**
+ * Complete generator state: the mulberry32 state and the cached Box-Muller
+ * spare. Restoring it continues the exact same sequence.
+ */
+export interface GaussianRNGState {
+  state: number;
+  spare: number | null;
+}
+
 /**
  * Gaussian random number generator using Box-Muller transform.
  * Produces standard normal (mean=0, stddev=1) samples.
+ * The mulberry32 state is held here (not in a closure) so it can be saved.
  */
 export class GaussianRNG {
-  private rng: () => number;
+  private state: number;
   private spare: number | null = null;
 
   constructor(seed: number) {
-    this.rng = mulberry32(seed);
+    this.state = seed;
+  }
+
+  /**
+   * Next uniform sample in [0, 1) from the same stream.
+   */
+  uniform(): number {
+    this.state += MULBERRY32_INCREMENT;
+    return mulberry32Output(this.state);
   }
 
   /**
@@ -51,8 +89,8 @@ export class GaussianRNG {
     }
     // Clamp u to avoid log(0) - mulberry32 can return 0
     // Clamping is deterministic, preserves reproducibility
-    const u = Math.max(this.rng(), 1e-12);
-    const v = this.rng();
+    const u = Math.max(this.uniform(), 1e-12);
+    const v = this.uniform();
     const r = Math.sqrt(-2 * Math.log(u));
     const theta = 2 * Math.PI * v;
     this.spare = r * Math.sin(theta);
@@ -61,11 +99,20 @@ export class GaussianRNG {
 
   /**
    * Fully reset to deterministic initial state for given seed.
-   * Recreates the PRNG closure and clears any cached spare value.
+   * Resets the PRNG state and clears any cached spare value.
    */
   reset(seed: number): void {
-    this.rng = mulberry32(seed);  // fresh closure with reset internal state
-    this.spare = null;            // clear cached Box-Muller spare
+    this.state = seed;   // mulberry32 state restarts from the seed
+    this.spare = null;   // clear cached Box-Muller spare
+  }
+
+  getState(): GaussianRNGState {
+    return { state: this.state, spare: this.spare };
+  }
+
+  setState(saved: GaussianRNGState): void {
+    this.state = saved.state;
+    this.spare = saved.spare;
   }
 }
 
@@ -0,0 +1,169 @@
+/**
+ * Message protocol between the main thread and the simulation worker.
+ *
+ * Every request carries an id; the worker answers each request with exactly
+ * one response carrying the same id, in the order received. Primordium state
+ * travels as transferable Float64Array buffers, sending birth data only once;
+ * radii, sizes and ablation flags are derived from it and the clock.
+ */
+
+import type { Intervention, InterventionAction, SimConfig } from './config';
+import type { Simulator, PlastochronMetrics, FieldEvalStats, PlacementStats } from './simulator';
+import type { DivergenceMetrics } from './angles';
+import type { PrimordiaClock } from './primordia';
+import type { SimulatorSnapshot } from './snapshot';
+
+// =============================================================================
+// Requests (main thread -> worker)
+// =============================================================================
+
+export type SimRequestBody =
+  | { type: 'init'; cfg: SimConfig }   // init + reset
+  | { type: 'reset' }
+  | { type: 'step' }
+  | { type: 'batch' }
+  | { type: 'fieldValues' }
+  | { type: 'metrics' }
+  | { type: 'intervene'; action: InterventionAction }
+  | { type: 'snapshot' }
+  | { type: 'restore'; snapshot: SimulatorSnapshot }
+  | { type: 'frame'; step: number; field: boolean }   // state after an earlier step
+  | { type: 'sweepRun'; cfg: SimConfig; late: number };   // separate run to completion
+
+export type SimRequest = SimRequestBody & { id: number };
+
+// =============================================================================
+// Responses (worker -> main thread)
+// =============================================================================
+
+export interface SimMetrics {
+  divergence: DivergenceMetrics;
+  plastochron: PlastochronMetrics;
+  fieldEval: FieldEvalStats | null;
+  placement: PlacementStats | null;
+}
+
+/**
+ * Simulator state after a request.
+ */
+export interface SimStatus {
+  count: number;
+  stepCount: number;
+  complete: boolean;
+  metrics: SimMetrics;
+  warnings: string[];     // skipped scheduled values (Simulator.getScheduleWarnings)
+}
+
+/**
+ * Primordia changed since the previous update: birth data for indices
+ * [start, count) and the ablations made since entry ablationStart of the
+ * ablation log (earlier ones never change), plus the clock that every
+ * radius, organ size and ablation flag follows from (see ClockedPrimordia).
+ * Its size grows with the new primordia only, not with the run.
+ */
+export interface PrimordiaUpdate {
+  start: number;
+  count: number;
+  theta: Float64Array;
+  birthStep: Float64Array;
+  birthRadius: Float64Array;
+  birthTravel: Float64Array;
+  ablationStart: number;
+  ablations: [number, number][];    // [index, step]
+  clock: PrimordiaClock;
+}
+
+/**
+ * The run as it was right after an earlier step: status, the number of
+ * primordia born by then and the clock (their birth data is already on the
+ * main thread), and field values (empty unless asked for).
+ * Field-evaluation and placement statistics are run totals, so they are null.
+ */
+export interface SimFrame {
+  status: SimStatus;
+  count: number;
+  clock: PrimordiaClock;
+  field: Float64Array;
+}
+
+export type SimResponse =
+  | { id: number; type: 'state'; status: SimStatus; update: PrimordiaUpdate }
+  | { id: number; type: 'intervened'; intervention: Intervention | null; status: SimStatus; update: PrimordiaUpdate }
+  | { id: number; type: 'fieldValues'; values: Float64Array }
+  | { id: number; type: 'metrics'; metrics: SimMetrics }
+  | { id: number; type: 'divergences'; values: Float64Array }
+  | { id: number; type: 'snapshot'; snapshot: SimulatorSnapshot }
+  | { id: number; type: 'frame'; frame: SimFrame }
+  | { id: number; type: 'error'; message: string };
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+export function collectMetrics(sim: Simulator): SimMetrics {
+  return {
+    divergence: sim.computeDivergenceMetrics(),
+    plastochron: sim.computePlastochronMetrics(),
+    fieldEval: sim.getFieldEvalStats(),
+    placement: sim.getPlacementStats()
+  };
+}
+
+export function collectStatus(sim: Simulator): SimStatus {
+  return {
+    count: sim.primordia.count,
+    stepCount: sim.getStepCount(),
+    complete: sim.isComplete(),
+    metrics: collectMetrics(sim),
+    warnings: sim.getScheduleWarnings()
+  };
+}
+
+/**
+ * Copy the birth data from index `start` and the ablations from log entry
+ * `ablationStart` on into fresh buffers (safe to transfer), with the clock.
+ */
+export function collectUpdate(sim: Simulator, start: number, ablationStart: number): PrimordiaUpdate {
+  const data = sim.birthData;
+  const count = sim.primordia.count;
+  return {
+    start,
+    count,
+    theta: data.thetas.slice(start, count),
+    birthStep: data.birthSteps.slice(start, count),
+    birthRadius: data.birthRadii.slice(start, count),
+    birthTravel: data.birthTravel.slice(start, count),
+    ablationStart,
+    ablations: data.ablations.slice(ablationStart),
+    clock: sim.getClock()
+  };
+}
+
+/**
+ * State after `step` (see Simulator.atStep).
+ */
+export function collectFrame(sim: Simulator, step: number, field: boolean): SimFrame {
+  return sim.atStep(step, () => {
+    const status = collectStatus(sim);
+    status.metrics.fieldEval = null;
+    status.metrics.placement = null;
+    return {
+      status,
+      count: sim.primordia.count,
+      clock: sim.getClock(),
+      field: field ? sim.getFieldValues() : new Float64Array(0)
+    };
+  });
+}
+
+/**
+ * Buffers to list as transferables when posting an update.
+ */
+export function updateTransfer(update: PrimordiaUpdate): ArrayBuffer[] {
+  return [
+    update.theta.buffer,
+    update.birthStep.buffer,
+    update.birthRadius.buffer,
+    update.birthTravel.buffer
+  ] as ArrayBuffer[];
+}
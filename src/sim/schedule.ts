@@ -0,0 +1,276 @@
+/**
+ * Parameter schedules: simulation parameters that change over a run.
+ *
+ * A schedule is a list of tracks, one per parameter. A track is either
+ * piecewise-linear keyframes (positioned by primordium index or time) or an
+ * expression in n (primordium index) and t (time).
+ *
+ * Values outside the limits validateConfig enforces (e.g. a negative λ, or R
+ * outside (0, maxR)) are skipped like NaN: the previous value stays in effect,
+ * and the simulator reports the first one skipped per parameter.
+ */
+
+import { Parser } from 'expr-eval';
+import type { KernelConfig, ScheduleConfig, ScheduleParam, ScheduleTrack, SimConfig } from './config';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const SCHEDULE_PARAMS: readonly ScheduleParam[] = [
+  'R', 'v', 'G', 'A', 'lambda', 'sigma', 'p', 'eps', 'd0', 'aspect'
+];
+
+/** Variables a track expression can read: primordium index and time */
+export const SCHEDULE_VARIABLES: readonly string[] = ['n', 't'];
+
+// =============================================================================
+// Compiled Schedule Interface
+// =============================================================================
+
+export interface CompiledSchedule {
+  /** Scheduled parameters, in track order */
+  params: ScheduleParam[];
+  /** Evaluate every track at primordium index n and time t into out (same order as params) */
+  evaluate: (n: number, t: number, out: Float64Array) => void;
+}
+
+// =============================================================================
+// Expression Parser (singleton)
+// =============================================================================
+
+const exprParser = new Parser();
+
+// =============================================================================
+// Schedule Compilation
+// =============================================================================
+
+/**
+ * Compile a schedule into an evaluator.
+ *
+ * Keyframes are sorted once and interpolated linearly, holding the first and
+ * last values outside their range. Expressions share one scope per track;
+ * non-finite results or exceptions yield NaN, which applyScheduledValue skips.
+ */
+export function compileSchedule(schedule: ScheduleConfig): CompiledSchedule {
+  const evaluators = schedule.tracks.map((track) => compileTrack(track, schedule.variable));
+  return {
+    params: schedule.tracks.map((track) => track.param),
+    evaluate: (n, t, out) => {
+      for (let i = 0; i < evaluators.length; i++) {
+        out[i] = evaluators[i](n, t);
+      }
+    }
+  };
+}
+
+function compileTrack(
+  track: ScheduleTrack,
+  variable: ScheduleConfig['variable']
+): (n: number, t: number) => number {
+  switch (track.type) {
+    case 'keyframes': {
+      const frames = [...track.keyframes].sort((a, b) => a.at - b.at);
+      return (n, t) => {
+        const x = variable === 'index' ? n : t;
+        if (x <= frames[0].at) return frames[0].value;
+        for (let i = 1; i < frames.length; i++) {
+          const b = frames[i];
+          if (x <= b.at) {
+            const a = frames[i - 1];
+            return a.value + (b.value - a.value) * (x - a.at) / (b.at - a.at);
+          }
+        }
+        return frames[frames.length - 1].value;
+      };
+    }
+
+    case 'expression': {
+      const compiled = exprParser.parse(track.expr);
+      const scope = { n: 0, t: 0 };
+      return (n, t) => {
+        try {
+          scope.n = n;
+          scope.t = t;
+          const result = compiled.evaluate(scope);
+          return Number.isFinite(result) ? result : NaN;
+        } catch {
+          return NaN;
+        }
+      };
+    }
+  }
+}
+
+// =============================================================================
+// Applying Values
+// =============================================================================
+
+/**
+ * True if a kernel parameter exists on the given kernel type.
+ */
+export function kernelHasParam(kernel: KernelConfig, param: ScheduleParam): boolean {
+  const params = kernel.type === 'custom' ? kernel.params : kernel;
+  return param in params;
+}
+
+/**
+ * The limit a scheduled value breaks, phrased to follow "must"
+ * ("be > 0", "stay < maxR"), or null if it is in range.
+ * Same limits as validateConfig.
+ */
+export function scheduleValueLimit(cfg: SimConfig, param: ScheduleParam, value: number): string | null {
+  if (!Number.isFinite(value)) return 'be finite';
+  switch (param) {
+    case 'R':
+      if (value <= 0) return 'be > 0';
+      return value < cfg.maxR ? null : 'stay < maxR';
+    case 'A':
+      return null;
+    case 'G':
+      return cfg.drift.law !== 'exponential' || value > 0 ? null : 'be > 0';
+    case 'eps':
+    case 'd0':
+      return value >= 0 ? null : 'be >= 0';
+    default:
+      return value > 0 ? null : 'be > 0';
+  }
+}
+
+/**
+ * The value of a schedulable parameter in a config (NaN if it has none,
+ * e.g. G with the linear drift law).
+ */
+export function scheduledParamValue(cfg: SimConfig, param: ScheduleParam): number {
+  switch (param) {
+    case 'R':
+      return cfg.R;
+    case 'v':
+      return cfg.v;
+    case 'G':
+      return cfg.drift.law === 'linear' ? NaN : cfg.drift.G;
+    default:
+      return kernelParam(cfg.kernel, param);
+  }
+}
+
+/**
+ * Write one scheduled value into a (mutable) config, unless it is NaN or
+ * out of range (scheduleValueLimit), in which case the config keeps its
+ * previous value.
+ * Returns which compiled law must be rebuilt, or null if none. R is read
+ * directly by the simulator and only places new primordia, so it never
+ * rebuilds one (custom drift laws see each primordium's birth radius).
+ */
+export function applyScheduledValue(
+  cfg: SimConfig,
+  param: ScheduleParam,
+  value: number
+): 'kernel' | 'drift' | null {
+  if (scheduleValueLimit(cfg, param, value) !== null) return null;
+
+  switch (param) {
+    case 'R':
+      cfg.R = value;
+      return null;
+    case 'v':
+      if (cfg.v === value) return null;
+      cfg.v = value;
+      return 'drift';
+    case 'G':
+      if (cfg.drift.law === 'linear' || cfg.drift.G === value) return null;
+      cfg.drift.G = value;
+      return 'drift';
+    default: {
+      const current = kernelParam(cfg.kernel, param);
+      if (isNaN(current) || current === value) return null;
+      setKernelParam(cfg.kernel, param, value);
+      return 'kernel';
+    }
+  }
+}
+
+/** Schedulable parameters that belong to the kernel */
+type KernelParam = Exclude<ScheduleParam, 'R' | 'v' | 'G'>;
+
+/** A kernel parameter's value (NaN if the kernel type has none) */
+function kernelParam(kernel: KernelConfig, param: KernelParam): number {
+  const k = kernel.type === 'custom' ? kernel.params : kernel;
+  switch (param) {
+    case 'A': return k.A;
+    case 'lambda': return 'lambda' in k ? k.lambda : NaN;
+    case 'sigma': return 'sigma' in k ? k.sigma : NaN;
+    case 'p': return 'p' in k ? k.p : NaN;
+    case 'eps': return 'eps' in k ? k.eps : NaN;
+    case 'd0': return 'd0' in k ? k.d0 : NaN;
+    case 'aspect': return 'aspect' in k ? k.aspect : NaN;
+  }
+}
+
+/** Write a kernel parameter, if the kernel type has it */
+function setKernelParam(kernel: KernelConfig, param: KernelParam, value: number): void {
+  const k = kernel.type === 'custom' ? kernel.params : kernel;
+  switch (param) {
+    case 'A': k.A = value; break;
+    case 'lambda': if ('lambda' in k) k.lambda = value; break;
+    case 'sigma': if ('sigma' in k) k.sigma = value; break;
+    case 'p': if ('p' in k) k.p = value; break;
+    case 'eps': if ('eps' in k) k.eps = value; break;
+    case 'd0': if ('d0' in k) k.d0 = value; break;
+    case 'aspect': if ('aspect' in k) k.aspect = value; break;
+  }
+}
+
+// =============================================================================
+// Text Format (sidebar editor)
+// =============================================================================
+
+/**
+ * Format tracks one per line:
+ *   lambda: 0=0.28, 400=0.18, 800=0.12   (keyframes)
+ *   A = 1 + 0.0005 * n                    (expression)
+ */
+export function formatScheduleTracks(tracks: ScheduleTrack[]): string {
+  return tracks
+    .map((track) => track.type === 'keyframes'
+      ? `${track.param}: ${track.keyframes.map((k) => `${k.at}=${k.value}`).join(', ')}`
+      : `${track.param} = ${track.expr}`)
+    .join('\n');
+}
+
+/**
+ * Parse the text format of formatScheduleTracks.
+ * Returns the tracks, or an error message naming the offending line.
+ */
+export function parseScheduleText(text: string): { tracks: ScheduleTrack[]; error: string | null } {
+  const tracks: ScheduleTrack[] = [];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = /^(\w+)\s*([:=])\s*(.+)$/.exec(line);
+    if (!match || !SCHEDULE_PARAMS.includes(match[1] as ScheduleParam)) {
+      return { tracks, error: `Schedule line ${i + 1}: expected "<param>: at=value, ..." or "<param> = expression"` };
+    }
+    const param = match[1] as ScheduleParam;
+
+    if (match[2] === '=') {
+      tracks.push({ param, type: 'expression', expr: match[3].trim() });
+      continue;
+    }
+
+    const keyframes = [];
+    for (const part of match[3].split(',')) {
+      const [at, value] = part.split('=').map((x) => parseFloat(x));
+      if (!Number.isFinite(at) || !Number.isFinite(value)) {
+        return { tracks, error: `Schedule line ${i + 1}: invalid keyframe "${part.trim()}"` };
+      }
+      keyframes.push({ at, value });
+    }
+    tracks.push({ param, type: 'keyframes', keyframes });
+  }
+
+  return { tracks, error: null };
+}
@@ -0,0 +1,104 @@
+/**
+ * Divergence angle time series.
+ *
+ * The divergence of every primordium from its predecessor, against birth
+ * index, kept in step with a growing primordia view: each sync appends only
+ * the primordia born since the last one. Prefix sums of cos and sin give the
+ * circular rolling mean over any window in constant time.
+ */
+
+import type { PrimordiaView } from './primordia';
+import { circularStdDev } from './angles';
+
+/** Primordia per rolling-mean window */
+export const ROLLING_WINDOW = 20;
+
+export interface RollingStats {
+  mean: number;     // circular mean (degrees, in [0, 360))
+  stdDev: number;   // circular standard deviation (degrees)
+}
+
+export class DivergenceSeries {
+  // Per primordium index; entry 0 has no predecessor (divergence NaN)
+  private thetas: number[] = [];
+  private degrees: number[] = [];
+  // cumCos[i] = Σ cos(divergence j) for 1 ≤ j ≤ i (likewise sin)
+  private cumCos: number[] = [];
+  private cumSin: number[] = [];
+
+  /** Number of primordia covered (divergences are defined from index 1) */
+  get length(): number {
+    return this.thetas.length;
+  }
+
+  clear(): void {
+    this.thetas.length = 0;
+    this.degrees.length = 0;
+    this.cumCos.length = 0;
+    this.cumSin.length = 0;
+  }
+
+  /**
+   * Bring the series up to date with `view`. A shorter view (an earlier
+   * timeline step) truncates it; a view whose angles no longer match (a new
+   * run) rebuilds it.
+   */
+  sync(view: PrimordiaView): void {
+    let n = Math.min(this.length, view.count);
+    if (n > 0 && this.thetas[n - 1] !== view.theta(n - 1)) n = 0;
+    this.thetas.length = n;
+    this.degrees.length = n;
+    this.cumCos.length = n;
+    this.cumSin.length = n;
+
+    for (let i = n; i < view.count; i++) {
+      const theta = view.theta(i);
+      this.thetas.push(theta);
+      if (i === 0) {
+        this.degrees.push(NaN);
+        this.cumCos.push(0);
+        this.cumSin.push(0);
+        continue;
+      }
+      // Wrap to [0, 2π) as Simulator.recentDivergences does
+      let delta = theta - this.thetas[i - 1];
+      delta = ((delta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+      this.degrees.push(delta * 180 / Math.PI);
+      this.cumCos.push(this.cumCos[i - 1] + Math.cos(delta));
+      this.cumSin.push(this.cumSin[i - 1] + Math.sin(delta));
+    }
+  }
+
+  /** Divergence (degrees, in [0, 360)) of primordium i from primordium i − 1 */
+  divergence(i: number): number {
+    return this.degrees[i];
+  }
+
+  /**
+   * Circular mean and standard deviation of the divergences of primordia
+   * i − window + 1 … i (fewer near the start).
+   */
+  rolling(i: number, window: number = ROLLING_WINDOW): RollingStats {
+    const from = Math.max(0, i - window);
+    const n = i - from;
+    if (n <= 0) return { mean: NaN, stdDev: NaN };
+    const c = this.cumCos[i] - this.cumCos[from];
+    const s = this.cumSin[i] - this.cumSin[from];
+    const resultant = Math.min(1, Math.hypot(c, s) / n);
+    const mean = (Math.atan2(s, c) * 180 / Math.PI + 360) % 360;
+    return { mean, stdDev: circularStdDev(resultant) };
+  }
+}
+
+/**
+ * One row per primordium with a predecessor: its divergence and the rolling
+ * circular mean and standard deviation ending at it.
+ */
+export function formatSeriesCsv(series: DivergenceSeries, window: number = ROLLING_WINDOW): string {
+  const lines = [`index,divergence_deg,rolling_mean_deg,rolling_std_deg`];
+  for (let i = 1; i < series.length; i++) {
+    const { mean, stdDev } = series.rolling(i, window);
+    lines.push(`${i},${series.divergence(i)},${mean},${stdDev}`);
+  }
+  return lines.join('\n') + '\n';
+}
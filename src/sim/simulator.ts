@@ -5,52 +5,178 @@
  * Preserves all MVP performance optimizations.
  */
 
-import type { SimConfig } from './config';
-import { compileKernel, HARD_CORE_PENALTY, type CompiledKernel } from './kernel';
-import { GaussianRNG, wrapAngle } from './prng';
+import {
+  cloneConfig,
+  type Intervention,
+  type InterventionAction,
+  type ScheduleParam,
+  type SimConfig
+} from './config';
+import { compileKernel, kernelCutoffDistance, HARD_CORE_PENALTY, type CompiledKernel } from './kernel';
+import { compileDrift, type CompiledDrift } from './drift';
+import { compileSize, type CompiledSize } from './size';
+import {
+  compileSchedule,
+  applyScheduledValue,
+  scheduledParamValue,
+  scheduleValueLimit,
+  type CompiledSchedule
+} from './schedule';
+import { wrapAngle } from './prng';
+import { analyzeDivergences, type DivergenceMetrics } from './angles';
+import { NoiseStreams } from './noise';
+import { PrimordiumStore, type PrimordiaBirthData, type PrimordiaClock, type PrimordiaView } from './primordia';
+import { minimizeOnCircle, type PlacementResult } from './placement';
+import { compileDome, type CompiledDome } from './dome';
+import { insertIntervention, sortedInterventions } from './interventions';
+import { validateConfig } from './validation';
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  encodeFloat64,
+  decodeFloat64,
+  saveNumber,
+  loadNumber,
+  type SimulatorSnapshot
+} from './snapshot';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export interface Primordium {
-  r: number;      // radial distance (changes each step via drift)
-  theta: number;  // angle in radians (immutable after creation)
-  ct: number;     // cos(theta) - cached at creation
-  st: number;     // sin(theta) - cached at creation
+export interface PlastochronMetrics {
+  mean: number;          // mean time between successive initiations
+  stdDev: number;
+  count: number;         // number of intervals
+  simultaneous: number;  // intervals of zero (several primordia in one step)
 }
 
+export interface FieldEvalStats {
+  cutoff: number;            // kernel cutoff distance (Infinity = no cutoff)
+  exactFallbacks: number;    // searches redone exactly (minimum within truncation error)
+  comparisons: number;       // θ* searches also run on the exact path
+  maxDeviationDeg: number;   // largest |θ*_cutoff - θ*_exact| seen
+}
+
+export interface PlacementStats {
+  gap: number;      // runner-up local minimum minus θ* field value (last search)
+  minima: number;   // local minima on the coarse grid (last search)
+  minGap: number;   // smallest gap seen since reset
+}
+
+/** Cap on initiations within a single step in threshold mode */
+const MAX_INITIATIONS_PER_STEP = 64;
+
+/** Upper bound on angular bins for cutoff field evaluation */
+const MAX_ANGULAR_BINS = 1024;
+
 // =============================================================================
 // Simulator Class
 // =============================================================================
 
 export class Simulator {
-  // Configuration
+  // Configuration: as given, and the working copy that schedules modify
+  private baseCfg!: SimConfig;
   private cfg!: SimConfig;
 
-  // Primordia state
-  public primordia: Primordium[] = [];
+  // Primordia state (birth data; radii derived from the drift coordinate)
+  private store!: PrimordiumStore;
+  private travel: number = 0;
 
-  // Compiled kernel
+  // Compiled kernel and drift law
   private kernel!: CompiledKernel;
+  private drift!: CompiledDrift;
+  private sizeLaw!: CompiledSize;
+
+  // Compiled parameter schedule (null if disabled) and its per-step values
+  private schedule: CompiledSchedule | null = null;
+  private scheduleValues!: Float64Array;
+
+  // A scheduled R or birth-radius noise can put newborns outside older primordia
+  private varyingBirthRadius: boolean = false;
+
+  // Geometry (disk, cylinder or dome; null unless dome)
+  private cylindrical: boolean = false;
+  private dome: CompiledDome | null = null;
 
   // Precomputed candidate angles (ONCE at init)
+  private candidateTheta!: Float64Array;
   private candidateCos!: Float64Array;
   private candidateSin!: Float64Array;
 
   // Pre-allocated active arrays (reused every step)
+  // Disk: Cartesian (x, y). Cylinder: (theta, height above the ring).
+  // Dome: 3D (x, y, depth below the tip); the ring point is (ringRho, ringDepth).
   private activeXs!: Float64Array;
   private activeYs!: Float64Array;
+  private activeZs!: Float64Array;
+  private ringRho: number = 0;
+  private ringDepth: number = 0;
   private activeCount: number = 0;
 
+  // Edge-to-edge distances: organ radii of the active primordia and of a newborn
+  private edgeToEdge: boolean = false;
+  private activeSizes!: Float64Array;
+  private newbornSize: number = 0;
+
+  // Amplitude jitter: kernel factor of each active primordium
+  private jitteredAmplitudes: boolean = false;
+  private activeAmplitudes!: Float64Array;
+
+  // Cutoff field evaluation: active primordia within the cutoff of the ring,
+  // counting-sorted into angular bins (binItems[binStart[b]..binStart[b+1]])
+  private useCutoff: boolean = false;
+  private cutoffDistance: number = Infinity;
+  private binCount: number = 1;
+  private binWindow: number = 0;  // bins on either side of a candidate's bin
+  private binStart!: Int32Array;
+  private binItems!: Int32Array;
+  private activeBin!: Int32Array;
+  private activeThetas!: Float64Array;
+  private activeRadii!: Float64Array;
+
+  // Exact fallbacks and comparison (fieldEval.compareExact)
+  private exactFallbacks: number = 0;
+  private comparisons: number = 0;
+  private maxDeviation: number = 0;
+
   // Active set tracking (suffix optimization)
   private firstActiveIndex: number = 0;
 
+  // Steps since reset (time = stepCount * dt)
+  private stepCount: number = 0;
+
+  // Per-step history for replaying earlier steps: the drift coordinate after
+  // each step, and the scheduled values in effect (one per track, per step).
+  // Angles and birth data never change, so this is all that is needed.
+  private travelHistory: number[] = [0];
+  private scheduleHistory: number[] = [];
+
+  // Minimum of the discrete field found by the last findMinimumFieldAngle()
+  private lastMinField: number = 0;
+
+  // Continuous placement: coarse grid scratch (null when sampled), last result
+  private placementGrid: Float64Array | null = null;
+  private lastPlacement: PlacementResult | null = null;
+  private minPlacementGap: number = Infinity;
+
+  // False once a non-monotone drift law has reordered radii; the active set
+  // is then found by a full scan instead of the suffix
+  private suffixInvariant: boolean = true;
+
+  // Interventions in application order (config entries plus those made
+  // during the run) and the next one to apply
+  private interventions: Intervention[] = [];
+  private nextIntervention: number = 0;
+
   // Overflow warning (one-time)
   private warnedOverflow: boolean = false;
 
-  // Gaussian RNG for noise
-  private gaussianRng: GaussianRNG = new GaussianRNG(12345);
+  // First skipped scheduled value of each parameter this run, as a message
+  private scheduleWarnings = new Map<ScheduleParam, string>();
+
+  // Noise sources, one random stream each
+  private noise!: NoiseStreams;
 
   // =============================================================================
   // Initialization
@@ -61,43 +187,96 @@ export class Simulator {
    * Allocates arrays and compiles kernel.
    */
   init(cfg: SimConfig): void {
-    this.cfg = cfg;
+    this.baseCfg = cfg;
+    this.cfg = cloneConfig(cfg);
 
-    // Compile kernel
+    // Compile kernel, drift law and schedule
     this.kernel = compileKernel(cfg.kernel);
+    this.drift = compileDrift(cfg);
+    this.sizeLaw = compileSize(cfg);
+    this.edgeToEdge = this.sizeLaw.edgeToEdge;
+    this.schedule = cfg.schedule.enabled && cfg.schedule.tracks.length > 0
+      ? compileSchedule(cfg.schedule)
+      : null;
+    this.scheduleValues = new Float64Array(cfg.schedule.tracks.length);
+    this.varyingBirthRadius = (this.schedule !== null && this.schedule.params.includes('R')) ||
+      cfg.noise.birthRadius.enabled;
+    this.jitteredAmplitudes = cfg.noise.amplitude.enabled;
+    this.cylindrical = cfg.geometry.type === 'cylinder';
+    this.dome = cfg.geometry.type === 'dome' ? compileDome(cfg.geometry) : null;
 
     // Precompute candidate angle trig (ONCE)
+    this.candidateTheta = new Float64Array(cfg.angleSamples);
     this.candidateCos = new Float64Array(cfg.angleSamples);
     this.candidateSin = new Float64Array(cfg.angleSamples);
     const step = (2 * Math.PI) / cfg.angleSamples;
     for (let i = 0; i < cfg.angleSamples; i++) {
       const theta = i * step;
+      this.candidateTheta[i] = theta;
       this.candidateCos[i] = Math.cos(theta);
       this.candidateSin[i] = Math.sin(theta);
     }
 
-    // Pre-allocate active arrays
+    this.placementGrid = cfg.placement.solver === 'continuous'
+      ? new Float64Array(cfg.placement.gridSamples)
+      : null;
+
+    // Primordium storage and active arrays, sized for the whole run
+    this.store = new PrimordiumStore(cfg.totalPrimordia, this.drift, this.sizeLaw, cfg.dt);
     this.activeXs = new Float64Array(cfg.totalPrimordia);
     this.activeYs = new Float64Array(cfg.totalPrimordia);
+    this.activeZs = new Float64Array(this.dome ? cfg.totalPrimordia : 0);
+    this.binItems = new Int32Array(cfg.totalPrimordia);
+    this.activeBin = new Int32Array(cfg.totalPrimordia);
+    this.activeThetas = new Float64Array(cfg.totalPrimordia);
+    this.activeRadii = new Float64Array(cfg.totalPrimordia);
+    this.activeSizes = new Float64Array(this.edgeToEdge ? cfg.totalPrimordia : 0);
+    this.activeAmplitudes = new Float64Array(this.jitteredAmplitudes ? cfg.totalPrimordia : 0);
+    this.updateCutoff();
+    this.interventions = sortedInterventions(cfg.interventions);
 
-    // Initialize PRNG
-    this.gaussianRng.reset(cfg.noise.seed);
+    // Initialize noise streams
+    this.noise = new NoiseStreams(cfg.noise);
   }
 
   /**
    * Reset simulation state (clear primordia, add first one).
    */
   reset(): void {
-    this.primordia = [];
+    this.store.clear();
     this.firstActiveIndex = 0;
+    this.stepCount = 0;
+    this.travel = 0;
+    this.travelHistory = [];
+    this.scheduleHistory = [];
+    this.suffixInvariant = true;
     this.warnedOverflow = false;
+    this.scheduleWarnings.clear();
     this.activeCount = 0;
+    this.exactFallbacks = 0;
+    this.comparisons = 0;
+    this.maxDeviation = 0;
+    this.lastPlacement = null;
+    this.minPlacementGap = Infinity;
+    this.nextIntervention = 0;
+
+    // Undo scheduled changes from a previous run
+    if (this.schedule) {
+      this.cfg = cloneConfig(this.baseCfg);
+      this.kernel = compileKernel(this.cfg.kernel);
+      this.drift = compileDrift(this.cfg);
+      this.updateCutoff();
+      this.applySchedule();
+    }
 
-    // Reset PRNG
-    this.gaussianRng.reset(this.cfg.noise.seed);
+    // Reset noise streams
+    this.noise.reset();
 
     // Add first primordium at theta=0
+    this.store.setClock(0, 0, this.drift);
+    this.recordHistory();
     this.addPrimordium(0);
+    this.applyDueInterventions();
   }
 
   // =============================================================================
@@ -106,39 +285,51 @@ export class Simulator {
 
   /**
    * Perform one simulation step:
-   * 1. Drift all primordia outward
+   * 0. Apply parameter schedule (if any)
+   * 1. Advance the drift coordinate (radii follow from it) and record it
    * 2. Advance firstActiveIndex
    * 3. Build active arrays
    * 4. Find minimum field angle
-   * 5. Apply noise (if enabled)
-   * 6. Add new primordium
+   * 5. Initiate:
+   *    - argmin: always add one primordium at the minimum
+   *    - threshold: add primordia while the minimum field is below the
+   *      threshold (zero, one or several per step)
+   * 6. Apply the interventions logged for this step
    */
   step(): void {
-    if (this.primordia.length >= this.cfg.totalPrimordia) {
+    if (this.isComplete()) {
       return;
     }
 
-    this.driftAllPrimordia();
+    this.stepCount++;
+    this.applySchedule();
+    this.advanceClock();
+    this.recordHistory();
     this.advanceFirstActiveIndex();
     this.buildActiveArrays();
-    let thetaStar = this.findMinimumFieldAngle();
 
-    // Apply noise if enabled
-    if (this.cfg.noise.enabled) {
-      const noiseRad = this.gaussianRng.next() * (this.cfg.noise.sigmaThetaDeg * Math.PI / 180);
-      thetaStar = wrapAngle(thetaStar + noiseRad);
+    const initiation = this.cfg.initiation;
+    if (initiation.mode === 'argmin') {
+      this.initiate(this.findMinimumFieldAngle());
+    } else {
+      for (let k = 0; k < MAX_INITIATIONS_PER_STEP && !this.isComplete(); k++) {
+        const thetaStar = this.findMinimumFieldAngle();
+        if (this.lastMinField >= initiation.threshold * this.noise.thresholdFactor()) break;
+        this.initiate(thetaStar);
+        // The newborn inhibits further initiations in this step
+        this.buildActiveArrays();
+      }
     }
 
-    this.addPrimordium(thetaStar);
+    this.applyDueInterventions();
   }
 
   /**
    * Run a batch of steps.
    */
   runBatch(): number {
-    const batchEnd = Math.min(this.primordia.length + this.cfg.batchSize, this.cfg.totalPrimordia);
     let stepsRun = 0;
-    while (this.primordia.length < batchEnd) {
+    while (stepsRun < this.cfg.batchSize && !this.isComplete()) {
       this.step();
       stepsRun++;
     }
@@ -149,42 +340,508 @@ export class Simulator {
    * Check if simulation is complete.
    */
   isComplete(): boolean {
-    return this.primordia.length >= this.cfg.totalPrimordia;
+    return this.store.count >= this.cfg.totalPrimordia;
+  }
+
+  /**
+   * Number of steps since reset (simulation time = steps * dt).
+   */
+  getStepCount(): number {
+    return this.stepCount;
+  }
+
+  /**
+   * Scheduled values skipped this run (NaN, expression errors or out of
+   * range), one message per parameter: the first value skipped.
+   */
+  getScheduleWarnings(): string[] {
+    return Array.from(this.scheduleWarnings.values());
+  }
+
+  /**
+   * Read-only view of the primordia in birth order.
+   */
+  get primordia(): PrimordiaView {
+    return this.store;
+  }
+
+  /**
+   * Birth data of the primordia (indices < primordia.count are valid).
+   */
+  get birthData(): PrimordiaBirthData {
+    return this.store;
+  }
+
+  /**
+   * Step, drift coordinate and config values the primordia's radii and sizes
+   * currently follow from (see ClockedPrimordia).
+   */
+  getClock(): PrimordiaClock {
+    const { v, dt, drift, size } = this.cfg;
+    return {
+      stepCount: this.stepCount,
+      travel: this.travel,
+      laws: { v, dt, drift: { ...drift }, size: { ...size } }
+    };
+  }
+
+  /**
+   * True if primordia have a size law (otherwise they are points).
+   */
+  hasOrganSizes(): boolean {
+    return this.sizeLaw.enabled;
+  }
+
+  /**
+   * Cutoff and exact-comparison statistics, or null in exact mode.
+   */
+  getFieldEvalStats(): FieldEvalStats | null {
+    if (this.cfg.fieldEval.mode !== 'cutoff') return null;
+    return {
+      cutoff: this.cutoffDistance,
+      exactFallbacks: this.exactFallbacks,
+      comparisons: this.comparisons,
+      maxDeviationDeg: this.maxDeviation * 180 / Math.PI
+    };
+  }
+
+  /**
+   * Runner-up gap of the continuous solver, or null with sampled placement.
+   */
+  getPlacementStats(): PlacementStats | null {
+    if (!this.lastPlacement) return null;
+    return {
+      gap: this.lastPlacement.gap,
+      minima: this.lastPlacement.minima,
+      minGap: this.minPlacementGap
+    };
+  }
+
+  // =============================================================================
+  // Interventions
+  // =============================================================================
+
+  /**
+   * Ablate or insert a primordium now, logged at the current step so that a
+   * reset (or a config carrying getInterventions()) replays it. Returns the
+   * logged intervention, or null if it does not apply: ablating a primordium
+   * that is not active, or inserting into a complete run.
+   */
+  intervene(action: InterventionAction): Intervention | null {
+    if (!this.applyIntervention(action)) return null;
+    const intervention: Intervention = { step: this.stepCount, ...action };
+    insertIntervention(this.interventions, intervention);
+    this.nextIntervention++;
+    this.buildActiveArrays();
+    return { ...intervention };
+  }
+
+  /**
+   * Every intervention of the run, applied or pending, in application order.
+   */
+  getInterventions(): Intervention[] {
+    return this.interventions.map((intervention) => ({ ...intervention }));
+  }
+
+  /**
+   * Apply the logged interventions due at the current step. Entries that do
+   * not apply to this run (e.g. a config edited after logging) are skipped.
+   */
+  private applyDueInterventions(): void {
+    let applied = false;
+    while (
+      this.nextIntervention < this.interventions.length &&
+      this.interventions[this.nextIntervention].step <= this.stepCount
+    ) {
+      const intervention = this.interventions[this.nextIntervention++];
+      if (this.applyIntervention(intervention)) {
+        applied = true;
+      } else {
+        console.warn(`applyDueInterventions: skipped inapplicable intervention at step ${intervention.step}.`);
+      }
+    }
+    // Keep the active arrays (and the field plot) in step with the change
+    if (applied) this.buildActiveArrays();
+  }
+
+  private applyIntervention(action: InterventionAction): boolean {
+    switch (action.type) {
+      case 'ablate': {
+        const i = action.index;
+        if (!Number.isInteger(i) || i < 0 || i >= this.store.count) return false;
+        if (this.store.ablated(i) || this.store.radius(i) > this.cfg.maxR) return false;
+        this.store.ablate(i);
+        return true;
+      }
+      case 'insert':
+        if (this.isComplete() || !isFinite(action.thetaDeg)) return false;
+        // Placed exactly: no noise of any kind
+        this.store.add(wrapAngle(action.thetaDeg * Math.PI / 180), this.cfg.R);
+        return true;
+    }
+  }
+
+  // =============================================================================
+  // Snapshots
+  // =============================================================================
+
+  /**
+   * Complete state as a JSON-safe snapshot. A simulator restored from it
+   * continues the run bit for bit as if it had never stopped.
+   */
+  serialize(): SimulatorSnapshot {
+    const store = this.store;
+    const count = store.count;
+    const ablated: [number, number][] = [];
+    for (let i = 0; i < count; i++) {
+      if (store.ablated(i)) ablated.push([i, store.ablatedSteps[i]]);
+    }
+    const config = cloneConfig(this.baseCfg);
+    config.interventions = this.getInterventions();
+    const placement = this.lastPlacement;
+
+    return {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      config,
+      current: cloneConfig(this.cfg),
+      primordia: {
+        count,
+        theta: encodeFloat64(store.thetas.subarray(0, count)),
+        birthStep: encodeFloat64(store.birthSteps.subarray(0, count)),
+        birthRadius: encodeFloat64(store.birthRadii.subarray(0, count)),
+        birthTravel: encodeFloat64(store.birthTravel.subarray(0, count)),
+        amplitude: encodeFloat64(store.amplitudes.subarray(0, count)),
+        ablated
+      },
+      stepCount: this.stepCount,
+      travel: this.travel,
+      history: {
+        travel: encodeFloat64(Float64Array.from(this.travelHistory)),
+        schedule: encodeFloat64(Float64Array.from(this.scheduleHistory))
+      },
+      firstActiveIndex: this.firstActiveIndex,
+      suffixInvariant: this.suffixInvariant,
+      nextIntervention: this.nextIntervention,
+      rng: this.noise.getState(),
+      stats: {
+        exactFallbacks: this.exactFallbacks,
+        comparisons: this.comparisons,
+        maxDeviation: this.maxDeviation,
+        lastMinField: this.lastMinField,
+        minPlacementGap: saveNumber(this.minPlacementGap),
+        lastPlacement: placement ? { ...placement, gap: saveNumber(placement.gap) } : null
+      }
+    };
+  }
+
+  /**
+   * Replace the whole state (config included) with a snapshot's.
+   * Throws if the snapshot's config is invalid or its data inconsistent.
+   */
+  restore(snapshot: SimulatorSnapshot): void {
+    const { errors } = validateConfig(snapshot.config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid snapshot config: ${errors.join('; ')}`);
+    }
+    const { primordia } = snapshot;
+    const count = primordia.count;
+    const thetas = decodeFloat64(primordia.theta, count);
+    const birthSteps = decodeFloat64(primordia.birthStep, count);
+    const birthRadii = decodeFloat64(primordia.birthRadius, count);
+    const birthTravel = decodeFloat64(primordia.birthTravel, count);
+    const amplitudes = decodeFloat64(primordia.amplitude, count);
+
+    this.init(snapshot.config);
+    const steps = snapshot.stepCount + 1;
+    const tracks = this.schedule ? this.scheduleValues.length : 0;
+    const travelHistory = decodeFloat64(snapshot.history.travel, steps);
+    const scheduleHistory = decodeFloat64(snapshot.history.schedule, steps * tracks);
+
+    // Scheduled values in effect when the snapshot was taken
+    this.cfg = cloneConfig(snapshot.current);
+    this.kernel = compileKernel(this.cfg.kernel);
+    this.drift = compileDrift(this.cfg);
+    this.updateCutoff();
+
+    this.store.load(thetas, birthSteps, birthRadii, birthTravel, amplitudes, primordia.ablated);
+    this.stepCount = snapshot.stepCount;
+    this.travel = snapshot.travel;
+    this.store.setClock(this.stepCount, this.travel, this.drift);
+    this.travelHistory = Array.from(travelHistory);
+    this.scheduleHistory = Array.from(scheduleHistory);
+    this.firstActiveIndex = snapshot.firstActiveIndex;
+    this.suffixInvariant = snapshot.suffixInvariant;
+    this.nextIntervention = snapshot.nextIntervention;
+    this.warnedOverflow = false;
+    this.scheduleWarnings.clear();
+    this.noise.setState(snapshot.rng);
+
+    const { stats } = snapshot;
+    this.exactFallbacks = stats.exactFallbacks;
+    this.comparisons = stats.comparisons;
+    this.maxDeviation = stats.maxDeviation;
+    this.lastMinField = stats.lastMinField;
+    this.minPlacementGap = loadNumber(stats.minPlacementGap);
+    this.lastPlacement = stats.lastPlacement
+      ? { ...stats.lastPlacement, gap: loadNumber(stats.lastPlacement.gap) }
+      : null;
+
+    // Active arrays for the field plot (rebuilt every step anyway)
+    this.buildStepActiveArrays();
+  }
+
+  // =============================================================================
+  // History
+  // =============================================================================
+
+  /**
+   * Call `read` with the simulator showing the state right after `step`
+   * (0 <= step <= getStepCount()): the primordia born by then at their radii
+   * then, with the ablations and scheduled values of that step. Primordia,
+   * field values and divergence/plastochron metrics read inside reflect that
+   * step; the field is the one the step initiated in, from the primordia born
+   * before it (see buildStepActiveArrays). The current state
+   * is put back afterwards, with the active arrays rebuilt as after restore().
+   */
+  atStep<T>(step: number, read: () => T): T {
+    if (!Number.isInteger(step) || step < 0 || step > this.stepCount) {
+      throw new RangeError(`Step ${step} is outside the recorded history [0, ${this.stepCount}]`);
+    }
+
+    const saved = {
+      cfg: this.cfg,
+      kernel: this.kernel,
+      drift: this.drift,
+      count: this.store.count,
+      stepCount: this.stepCount,
+      travel: this.travel,
+      firstActiveIndex: this.firstActiveIndex,
+      suffixInvariant: this.suffixInvariant
+    };
+    try {
+      if (this.schedule) {
+        this.cfg = this.configAt(step);
+        this.kernel = compileKernel(this.cfg.kernel);
+        this.drift = compileDrift(this.cfg);
+        this.updateCutoff();
+      }
+      this.stepCount = step;
+      this.travel = this.travelHistory[step];
+      this.store.count = this.store.countBornBy(step);
+      this.store.setClock(step, this.travel, this.drift);
+      // Scan everything born by then rather than trusting the current suffix
+      this.firstActiveIndex = 0;
+      this.suffixInvariant = false;
+      this.buildStepActiveArrays();
+      return read();
+    } finally {
+      this.cfg = saved.cfg;
+      this.kernel = saved.kernel;
+      this.drift = saved.drift;
+      this.store.count = saved.count;
+      this.stepCount = saved.stepCount;
+      this.travel = saved.travel;
+      this.store.setClock(this.stepCount, this.travel, this.drift);
+      this.firstActiveIndex = saved.firstActiveIndex;
+      this.suffixInvariant = saved.suffixInvariant;
+      this.updateCutoff();
+      this.buildStepActiveArrays();
+    }
+  }
+
+  /**
+   * Base config with the scheduled values recorded for `step` applied.
+   */
+  private configAt(step: number): SimConfig {
+    const cfg = cloneConfig(this.baseCfg);
+    if (!this.schedule) return cfg;
+    const { params } = this.schedule;
+    const offset = step * params.length;
+    for (let i = 0; i < params.length; i++) {
+      applyScheduledValue(cfg, params[i], this.scheduleHistory[offset + i]);
+    }
+    return cfg;
+  }
+
+  /**
+   * Append the current drift coordinate and scheduled values to the history.
+   */
+  private recordHistory(): void {
+    this.travelHistory.push(this.travel);
+    if (!this.schedule) return;
+    for (let i = 0; i < this.scheduleValues.length; i++) {
+      this.scheduleHistory.push(this.scheduleValues[i]);
+    }
   }
 
   // =============================================================================
   // Internal Methods
   // =============================================================================
 
-  private driftAllPrimordia(): void {
-    const drift = this.cfg.v * this.cfg.dt;
-    for (const p of this.primordia) {
-      p.r += drift;
+  /**
+   * Evaluate the schedule at the next primordium index and current time.
+   * Skipped values (NaN or out of range) leave the previous value in effect.
+   * Kernel parameters are updated in place and the cutoff recomputed only if
+   * one of them changed; the drift law is recompiled only if its values
+   * changed, and the angular bins re-derived only if R did.
+   */
+  private applySchedule(): void {
+    if (!this.schedule) return;
+
+    const { params, evaluate } = this.schedule;
+    evaluate(this.store.count, this.stepCount * this.cfg.dt, this.scheduleValues);
+
+    const R = this.cfg.R;
+    let kernelDirty = false;
+    let driftDirty = false;
+    for (let i = 0; i < params.length; i++) {
+      this.checkScheduledValue(params[i], this.scheduleValues[i]);
+      const changed = applyScheduledValue(this.cfg, params[i], this.scheduleValues[i]);
+      if (changed === 'kernel') kernelDirty = true;
+      if (changed === 'drift') driftDirty = true;
+      // Record the value in effect, so configAt() sees a skipped value as skipped
+      this.scheduleValues[i] = scheduledParamValue(this.cfg, params[i]);
+    }
+
+    if (kernelDirty) this.kernel.refresh(this.cfg.kernel);
+    if (driftDirty) this.drift = compileDrift(this.cfg);
+    if (kernelDirty) {
+      this.updateCutoff();
+    } else if (this.cfg.R !== R && this.useCutoff) {
+      this.updateBins();
+    }
+  }
+
+  /**
+   * Record the first scheduled value of a parameter that applyScheduledValue
+   * will skip (parameters the config lacks are ignored, not skipped).
+   */
+  private checkScheduledValue(param: ScheduleParam, value: number): void {
+    if (this.scheduleWarnings.has(param)) return;
+    const limit = scheduleValueLimit(this.cfg, param, value);
+    if (limit === null || isNaN(scheduledParamValue(this.cfg, param))) return;
+    this.scheduleWarnings.set(
+      param,
+      `Schedule: ${param} = ${value} at step ${this.stepCount} skipped (must ${limit}), previous value kept`
+    );
+  }
+
+  /**
+   * Derive the kernel cutoff distance and the angular binning from it.
+   * The distance depends on the kernel alone: it is searched up to the
+   * farthest possible pair for any R < maxR (across the disk or over the
+   * tip, or around the stem and up), so a scheduled R only moves the bins.
+   */
+  private updateCutoff(): void {
+    const { maxR, fieldEval } = this.cfg;
+    this.useCutoff = fieldEval.mode === 'cutoff' && !this.edgeToEdge && !this.jitteredAmplitudes;
+    if (!this.useCutoff) {
+      this.cutoffDistance = Infinity;
+      return;
+    }
+
+    const maxDistance = (Math.PI + 1) * maxR;
+    this.cutoffDistance = kernelCutoffDistance(this.cfg.kernel, this.kernel, fieldEval.tolerance, maxDistance);
+    this.updateBins();
+  }
+
+  /**
+   * Angular binning for the current cutoff distance and R.
+   *
+   * A contributor at distance d <= cutoff from a ring point lies within an
+   * angular half-window of asin(cutoff / R) on the disk (the chord bound) and
+   * cutoff / R on the cylinder (the arc bound). On the dome, 3D distances are
+   * at least the planar ones, so the disk bound holds with the ring's
+   * distance from the axis in place of R. Bins are about half that window
+   * wide, so each candidate visits a handful of bins.
+   * Edge-to-edge distances have no fixed centre-distance bound, and jittered
+   * amplitudes no fixed magnitude bound, so both always use the exact sum.
+   */
+  private updateBins(): void {
+    const { R } = this.cfg;
+    const ratio = this.cutoffDistance / (this.dome ? this.dome.rho(R) : R);
+    let halfWindow: number;
+    if (this.cylindrical) {
+      halfWindow = Math.min(Math.PI, ratio);
+    } else {
+      halfWindow = ratio < 1 ? Math.asin(ratio) : Math.PI;
+    }
+
+    this.binCount = Math.max(1, Math.min(MAX_ANGULAR_BINS, Math.floor(4 * Math.PI / Math.max(halfWindow, 1e-9))));
+    this.binWindow = Math.ceil(halfWindow * this.binCount / (2 * Math.PI));
+    if (this.binStart?.length !== this.binCount + 1) this.binStart = new Int32Array(this.binCount + 1);
+  }
+
+  /**
+   * Advance the drift coordinate by one step. Radii are derived from it on
+   * demand, so this is O(1) unless the ordering has to be verified.
+   */
+  private advanceClock(): void {
+    this.travel += this.drift.increment;
+    this.store.setClock(this.stepCount, this.travel, this.drift);
+
+    // Laws not known to be monotone (or a moving ring): verify older
+    // primordia are still further out (a full pass)
+    if ((!this.drift.monotonic || this.varyingBirthRadius) && this.suffixInvariant) {
+      let prev = this.store.radius(0);
+      for (let i = 1; i < this.store.count; i++) {
+        const r = this.store.radius(i);
+        if (prev < r) {
+          console.warn('advanceClock: radius ordering broken (non-monotone drift or varying birth radius), scanning full active set.');
+          this.suffixInvariant = false;
+          this.firstActiveIndex = 0;
+          break;
+        }
+        prev = r;
+      }
     }
   }
 
+  /**
+   * Active arrays as the current step built them for its initiations: from
+   * the primordia born before it, so the field shows no spike at a newborn.
+   */
+  private buildStepActiveArrays(): void {
+    const count = this.store.count;
+    this.store.count = this.store.countBornBy(this.stepCount - 1);
+    this.buildActiveArrays();
+    this.store.count = count;
+  }
+
   /**
    * Advance firstActiveIndex to skip primordia that have drifted beyond maxR.
    * 
    * Maintains invariant: all i < firstActiveIndex have r > maxR (inactive).
    * Because r is strictly decreasing with index (older = larger r, given
-   * all start at identical R), the active set is the suffix primordia[firstActiveIndex..].
+   * all start at identical R), the active set is the suffix [firstActiveIndex..count).
+   * If the drift law or a scheduled R breaks that ordering, the index stays at 0 and
+   * buildActiveArrays filters by radius instead.
    */
   private advanceFirstActiveIndex(): void {
+    if (!this.suffixInvariant) return;
     while (
-      this.firstActiveIndex < this.primordia.length &&
-      this.primordia[this.firstActiveIndex].r > this.cfg.maxR
+      this.firstActiveIndex < this.store.count &&
+      this.store.radius(this.firstActiveIndex) > this.cfg.maxR
     ) {
       this.firstActiveIndex++;
     }
   }
 
   /**
-   * Build dense arrays of Cartesian coordinates for active primordia.
+   * Build dense coordinate arrays for active primordia.
+   * Disk: Cartesian (x, y). Cylinder: (theta, height above the ring).
+   * Dome: 3D (x, y, depth), with r taken as arc length from the tip.
+   * In cutoff mode, also bins them by angle.
    */
   private buildActiveArrays(): void {
     this.activeCount = 0;
-    for (let i = this.firstActiveIndex; i < this.primordia.length; i++) {
+    const store = this.store;
+    const dome = this.dome;
+    for (let i = this.firstActiveIndex; i < store.count; i++) {
+      if (store.ablated(i)) continue;
+      const r = store.radius(i);
+      if (!this.suffixInvariant && r > this.cfg.maxR) continue;
       // Safety guard: prevent overflow
       if (this.activeCount >= this.activeXs.length) {
         if (!this.warnedOverflow) {
@@ -193,59 +850,264 @@ export class Simulator {
         }
         break;
       }
-      const p = this.primordia[i];
-      this.activeXs[this.activeCount] = p.r * p.ct;
-      this.activeYs[this.activeCount] = p.r * p.st;
+      const theta = store.thetas[i];
+      this.activeThetas[this.activeCount] = theta;
+      this.activeRadii[this.activeCount] = r;
+      if (this.edgeToEdge) this.activeSizes[this.activeCount] = store.size(i);
+      if (this.jitteredAmplitudes) this.activeAmplitudes[this.activeCount] = store.amplitudes[i];
+      if (this.cylindrical) {
+        this.activeXs[this.activeCount] = theta;
+        this.activeYs[this.activeCount] = r - this.cfg.R;
+      } else if (dome) {
+        const rho = dome.rho(r);
+        this.activeXs[this.activeCount] = rho * store.cosines[i];
+        this.activeYs[this.activeCount] = rho * store.sines[i];
+        this.activeZs[this.activeCount] = dome.depth(r);
+      } else {
+        this.activeXs[this.activeCount] = r * store.cosines[i];
+        this.activeYs[this.activeCount] = r * store.sines[i];
+      }
       this.activeCount++;
     }
+
+    if (dome) {
+      this.ringRho = dome.rho(this.cfg.R);
+      this.ringDepth = dome.depth(this.cfg.R);
+    }
+    if (this.edgeToEdge) this.newbornSize = this.sizeLaw.size(0, this.cfg.R);
+    if (this.useCutoff) this.buildBins();
   }
 
   /**
-   * Find the angle θ* on the active ring that minimizes the inhibition field.
-   * Uses parabolic refinement for sub-sample precision.
+   * Counting sort of the active primordia into angular bins. Primordia
+   * further than the cutoff from the ring (|r - R| > cutoff, or on the dome
+   * the same for distances from the axis) can reach no candidate and are
+   * left out.
    */
-  private findMinimumFieldAngle(): number {
-    const { R, angleSamples } = this.cfg;
-    const { fn: kernelFn, hasHardCore, d0: hardCoreD0 } = this.kernel;
-
-    // fieldAtIndex: assumes 0 <= i < angleSamples (no modulo overhead)
-    const fieldAtIndex = (i: number): number => {
-      const cx = R * this.candidateCos[i];
-      const cy = R * this.candidateSin[i];
-      let sum = 0;
-      for (let j = 0; j < this.activeCount; j++) {
-        const dx = cx - this.activeXs[j];
-        const dy = cy - this.activeYs[j];
-        const d = Math.sqrt(dx * dx + dy * dy);
-
-        // Hard-core check: early exit
-        if (hasHardCore && d < hardCoreD0) {
+  private buildBins(): void {
+    const { binCount, binStart, binItems, activeBin, activeThetas, activeRadii, activeXs, activeYs } = this;
+    const dome = this.dome;
+    const R = dome ? this.ringRho : this.cfg.R;
+    const cutoff = this.cutoffDistance;
+    const binsPerRadian = binCount / (2 * Math.PI);
+
+    binStart.fill(0);
+    for (let j = 0; j < this.activeCount; j++) {
+      const radial = dome ? Math.hypot(activeXs[j], activeYs[j]) : activeRadii[j];
+      if (Math.abs(radial - R) > cutoff) {
+        activeBin[j] = -1;
+        continue;
+      }
+      const b = Math.min(binCount - 1, Math.floor(activeThetas[j] * binsPerRadian));
+      activeBin[j] = b;
+      binStart[b + 1]++;
+    }
+
+    for (let b = 0; b < binCount; b++) binStart[b + 1] += binStart[b];
+    const fill = binStart.slice(0, binCount);
+    for (let j = 0; j < this.activeCount; j++) {
+      if (activeBin[j] >= 0) binItems[fill[activeBin[j]]++] = j;
+    }
+  }
+
+  /**
+   * Inhibition field at candidate angle i (assumes 0 <= i < angleSamples).
+   */
+  private fieldAtIndex(i: number, exact: boolean = false): number {
+    return this.fieldAtAngle(this.candidateTheta[i], this.candidateCos[i], this.candidateSin[i], exact);
+  }
+
+  /**
+   * Inhibition field at angle thetaC in [0, 2π) on the ring.
+   * Sums every active primordium, or in cutoff mode only those in the
+   * angular bins around the candidate (unless `exact` is set).
+   * Disk: Euclidean distance in the plane.
+   * Cylinder: periodic arc length around the stem combined with height.
+   * Dome: chordal or geodesic distance on the surface.
+   * Anisotropic kernels also get the displacement in the candidate's frame.
+   */
+  private fieldAtAngle(thetaC: number, cosC: number, sinC: number, exact: boolean): number {
+    const R = this.cfg.R;
+    const { fn: kernelFn, fnDisplacement, hasHardCore, d0: hardCoreD0 } = this.kernel;
+    const cylindrical = this.cylindrical;
+    const dome = this.dome;
+    const xs = this.activeXs;
+    const ys = this.activeYs;
+    const zs = this.activeZs;
+    const { activeThetas, activeRadii } = this;
+    const ringRho = dome ? this.ringRho : R;
+    const cx = ringRho * cosC;
+    const cy = ringRho * sinC;
+    const cz = this.ringDepth;
+    const edgeToEdge = this.edgeToEdge;
+    const sizes = this.activeSizes;
+    const newbornSize = this.newbornSize;
+    const amplitudes = this.jitteredAmplitudes ? this.activeAmplitudes : null;
+
+    // Exact: every active primordium. Cutoff: the bins around the candidate.
+    const useBins = this.useCutoff && !exact;
+    const { binCount, binWindow, binStart, binItems } = this;
+    const cutoff = useBins ? this.cutoffDistance : Infinity;
+    let first = 0;
+    let last = 0;
+    if (useBins) {
+      const home = Math.min(binCount - 1, Math.floor(thetaC * binCount / (2 * Math.PI)));
+      // A window wrapping all the way round visits each bin once
+      const wraps = 2 * binWindow + 1 >= binCount;
+      first = wraps ? 0 : home - binWindow;
+      last = wraps ? binCount - 1 : home + binWindow;
+    }
+
+    let sum = 0;
+    for (let b = first; b <= last; b++) {
+      let sStart = 0;
+      let sEnd = this.activeCount;
+      if (useBins) {
+        const bin = b < 0 ? b + binCount : b >= binCount ? b - binCount : b;
+        sStart = binStart[bin];
+        sEnd = binStart[bin + 1];
+      }
+
+      for (let s = sStart; s < sEnd; s++) {
+        const j = useBins ? binItems[s] : s;
+        let d: number;
+        if (cylindrical) {
+          let dTheta = Math.abs(thetaC - xs[j]);
+          if (dTheta > Math.PI) dTheta = 2 * Math.PI - dTheta;
+          const arc = R * dTheta;
+          const dz = ys[j];
+          d = Math.sqrt(arc * arc + dz * dz);
+        } else if (dome) {
+          d = dome.distance(cx, cy, cz, xs[j], ys[j], zs[j]);
+        } else {
+          const dx = cx - xs[j];
+          const dy = cy - ys[j];
+          d = Math.sqrt(dx * dx + dy * dy);
+        }
+        const centreDistance = d;
+
+        // Gap between organ edges (negative when they overlap)
+        if (edgeToEdge) d -= sizes[j] + newbornSize;
+
+        if (d > cutoff) continue;
+
+        // Hard-core check: early exit (overlapping organs always excluded)
+        if (hasHardCore && (d < hardCoreD0 || d < 0)) {
           return HARD_CORE_PENALTY;
         }
 
-        sum += kernelFn(d);
+        if (d < 0) d = 0;
+        let contribution: number;
+        if (fnDisplacement === null) {
+          contribution = kernelFn(d);
+        } else {
+          // Displacement of primordium j: along the ring and outward
+          let dTheta = activeThetas[j] - thetaC;
+          if (dTheta > Math.PI) dTheta -= 2 * Math.PI;
+          else if (dTheta <= -Math.PI) dTheta += 2 * Math.PI;
+          let along: number;
+          let outward: number;
+          if (cylindrical) {
+            along = R * dTheta;
+            outward = ys[j];
+          } else {
+            const ex = xs[j] - cx;
+            const ey = ys[j] - cy;
+            along = ey * cosC - ex * sinC;
+            outward = ex * cosC + ey * sinC;
+            // Dome: the rest of the surface distance lies along the meridian
+            if (dome) {
+              const rest = centreDistance * centreDistance - along * along;
+              outward = Math.sign(activeRadii[j] - R) * Math.sqrt(Math.max(0, rest));
+            }
+          }
+          contribution = fnDisplacement(d, along, outward, dTheta, activeRadii[j] - R);
+        }
+        sum += amplitudes === null ? contribution : amplitudes[j] * contribution;
       }
-      return sum;
-    };
+    }
+    return sum;
+  }
+
+  /**
+   * Find the angle θ* on the active ring that minimizes the inhibition field.
+   *
+   * The cutoff path drops at most activeCount * tolerance per candidate. A
+   * minimum below that bound (e.g. an empty stretch of ring with few
+   * primordia, where the truncated field is a flat zero) cannot be trusted,
+   * so the search falls back to the exact path. With fieldEval.compareExact,
+   * the search is repeated on the exact path and the deviation between the
+   * two θ* recorded.
+   */
+  private findMinimumFieldAngle(): number {
+    if (!this.useCutoff) return this.searchMinimum(true);
+
+    const theta = this.searchMinimum(false);
+    if (this.lastMinField <= this.activeCount * this.cfg.fieldEval.tolerance) {
+      this.exactFallbacks++;
+      return this.searchMinimum(true);
+    }
+
+    if (this.cfg.fieldEval.compareExact) {
+      const minField = this.lastMinField;
+      const placement = this.lastPlacement;
+      const minGap = this.minPlacementGap;
+      let deviation = Math.abs(theta - this.searchMinimum(true));
+      if (deviation > Math.PI) deviation = 2 * Math.PI - deviation;
+      if (deviation > this.maxDeviation) this.maxDeviation = deviation;
+      this.comparisons++;
+      this.lastMinField = minField;
+      this.lastPlacement = placement;
+      this.minPlacementGap = minGap;
+    }
+
+    return theta;
+  }
+
+  /**
+   * θ* with the configured placement solver; sets lastMinField.
+   */
+  private searchMinimum(exact: boolean): number {
+    const placement = this.cfg.placement;
+    if (placement.solver === 'sampled') return this.searchSampled(exact);
+
+    const result = minimizeOnCircle(
+      (theta) => this.fieldAtAngle(theta, Math.cos(theta), Math.sin(theta), exact),
+      this.placementGrid!,
+      placement.tolerance
+    );
+    this.lastMinField = result.field;
+    this.lastPlacement = result;
+    if (result.gap < this.minPlacementGap) this.minPlacementGap = result.gap;
+    return result.theta;
+  }
+
+  /**
+   * Discrete minimum over the candidate angles with parabolic refinement
+   * for sub-sample precision.
+   */
+  private searchSampled(exact: boolean): number {
+    const { angleSamples } = this.cfg;
 
     // Single pass to find discrete minimum index
     let minVal = Infinity;
     let iMin = 0;
     for (let i = 0; i < angleSamples; i++) {
-      const f = fieldAtIndex(i);
+      const f = this.fieldAtIndex(i, exact);
       if (f < minVal) {
         minVal = f;
         iMin = i;
       }
     }
+    this.lastMinField = minVal;
 
     // Parabolic refinement: compute neighbor indices with branch-based wrap
     const iL = (iMin === 0) ? angleSamples - 1 : iMin - 1;
     const iR = (iMin === angleSamples - 1) ? 0 : iMin + 1;
 
-    const f0 = fieldAtIndex(iL);
+    const f0 = this.fieldAtIndex(iL, exact);
     const f1 = minVal;
-    const f2 = fieldAtIndex(iR);
+    const f2 = this.fieldAtIndex(iR, exact);
 
     const denom = 2 * (f0 - 2 * f1 + f2);
     let refinedIndex: number = iMin;
@@ -265,13 +1127,21 @@ export class Simulator {
     return theta;
   }
 
+  /**
+   * Apply angular noise (if enabled) and add a primordium at θ*.
+   */
+  private initiate(thetaStar: number): void {
+    if (this.cfg.noise.enabled) {
+      thetaStar = wrapAngle(thetaStar + this.noise.angleOffset());
+    }
+    this.addPrimordium(thetaStar);
+  }
+
+  /**
+   * Add a primordium on the ring, with birth-radius and amplitude noise.
+   */
   private addPrimordium(theta: number): void {
-    this.primordia.push({
-      r: this.cfg.R,
-      theta,
-      ct: Math.cos(theta),
-      st: Math.sin(theta)
-    });
+    this.store.add(theta, this.noise.birthRadiusAt(this.cfg.R), this.noise.amplitudeFactor());
   }
 
   // =============================================================================
@@ -283,29 +1153,10 @@ export class Simulator {
    * Used for field plot visualization.
    */
   getFieldValues(): Float64Array {
-    const { R, angleSamples } = this.cfg;
-    const { fn: kernelFn, hasHardCore, d0: hardCoreD0 } = this.kernel;
-    const values = new Float64Array(angleSamples);
-
-    for (let i = 0; i < angleSamples; i++) {
-      const cx = R * this.candidateCos[i];
-      const cy = R * this.candidateSin[i];
-      let sum = 0;
-      for (let j = 0; j < this.activeCount; j++) {
-        const dx = cx - this.activeXs[j];
-        const dy = cy - this.activeYs[j];
-        const d = Math.sqrt(dx * dx + dy * dy);
-
-        if (hasHardCore && d < hardCoreD0) {
-          sum = HARD_CORE_PENALTY;
-          break;
-        }
-
-        sum += kernelFn(d);
-      }
-      values[i] = sum;
+    const values = new Float64Array(this.cfg.angleSamples);
+    for (let i = 0; i < values.length; i++) {
+      values[i] = this.fieldAtIndex(i);
     }
-
     return values;
   }
 
@@ -314,27 +1165,58 @@ export class Simulator {
   // =============================================================================
 
   /**
-   * Compute divergence angle statistics for the last N primordia.
+   * Divergence angles (degrees, in [0, 360)) between successive primordia,
+   * for the last N primordia.
    */
-  computeDivergenceMetrics(N: number = 200): { mean: number; stdDev: number; count: number } {
-    const startIdx = Math.max(1, this.primordia.length - N);
+  recentDivergences(N: number = 200): number[] {
+    const { count, thetas } = this.store;
+    const startIdx = Math.max(1, count - N);
     const deltas: number[] = [];
 
-    for (let i = startIdx; i < this.primordia.length; i++) {
-      let delta = this.primordia[i].theta - this.primordia[i - 1].theta;
+    for (let i = startIdx; i < count; i++) {
+      let delta = thetas[i] - thetas[i - 1];
       // Wrap to [0, 2π)
       delta = ((delta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
       deltas.push(delta * 180 / Math.PI); // degrees
     }
+    return deltas;
+  }
+
+  /**
+   * Compute divergence angle statistics for the last N primordia: linear and
+   * circular, folded by chirality, with continued fraction and nearest noble.
+   */
+  computeDivergenceMetrics(N: number = 200): DivergenceMetrics {
+    return analyzeDivergences(this.recentDivergences(N));
+  }
+
+  // =============================================================================
+  // Plastochron Metrics
+  // =============================================================================
+
+  /**
+   * Compute statistics of the time between successive initiations for the last N primordia.
+   */
+  computePlastochronMetrics(N: number = 200): PlastochronMetrics {
+    const { count, birthSteps } = this.store;
+    const startIdx = Math.max(1, count - N);
+    const intervals: number[] = [];
+    let simultaneous = 0;
+
+    for (let i = startIdx; i < count; i++) {
+      const steps = birthSteps[i] - birthSteps[i - 1];
+      if (steps === 0) simultaneous++;
+      intervals.push(steps * this.cfg.dt);
+    }
 
-    if (deltas.length === 0) {
-      return { mean: 0, stdDev: 0, count: 0 };
+    if (intervals.length === 0) {
+      return { mean: 0, stdDev: 0, count: 0, simultaneous: 0 };
     }
 
-    const mean = deltas.reduce((a, b) => a + b, 0) / deltas.length;
-    const variance = deltas.reduce((a, d) => a + (d - mean) ** 2, 0) / deltas.length;
+    const mean = intervals.reduce((a, b) => a + b, 0) / intervals.length;
+    const variance = intervals.reduce((a, d) => a + (d - mean) ** 2, 0) / intervals.length;
     const stdDev = Math.sqrt(variance);
 
-    return { mean, stdDev, count: deltas.length };
+    return { mean, stdDev, count: intervals.length, simultaneous };
   }
 }
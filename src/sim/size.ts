@@ -0,0 +1,53 @@
+/**
+ * Organ size laws: the radius of a primordium as a function of its age and
+ * radial distance. Like radii, sizes are derived on demand, never stored.
+ */
+
+import type { SimConfig } from './config';
+
+// =============================================================================
+// Compiled Size Law Interface
+// =============================================================================
+
+export interface CompiledSize {
+  /** False for point primordia (size always 0) */
+  enabled: boolean;
+  /** Kernel distances are measured between organ edges */
+  edgeToEdge: boolean;
+  /** Organ radius given age and current radial distance (never negative) */
+  size: (age: number, r: number) => number;
+}
+
+// =============================================================================
+// Size Compilation
+// =============================================================================
+
+export function compileSize(cfg: Pick<SimConfig, 'size'>): CompiledSize {
+  const law = cfg.size;
+
+  switch (law.law) {
+    case 'none':
+      return { enabled: false, edgeToEdge: false, size: () => 0 };
+
+    case 'linear':
+      return {
+        enabled: true,
+        edgeToEdge: law.edgeToEdge,
+        size: (age) => Math.max(0, law.s0 + law.g * age)
+      };
+
+    case 'exponential':
+      return {
+        enabled: true,
+        edgeToEdge: law.edgeToEdge,
+        size: (age) => law.s0 * Math.exp(law.g * age)
+      };
+
+    case 'proportional':
+      return {
+        enabled: true,
+        edgeToEdge: law.edgeToEdge,
+        size: (_age, r) => law.ratio * r
+      };
+  }
+}
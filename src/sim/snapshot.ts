@@ -0,0 +1,132 @@
+/**
+ * Simulator snapshots (checkpoints).
+ *
+ * A snapshot holds the complete simulator state as JSON: the configuration,
+ * the primordia, the clock and the exact state of every noise stream. Arrays of
+ * doubles are stored as base64 of their little-endian bytes, so every value
+ * round-trips bit for bit and large runs stay compact.
+ */
+
+import { normalizeConfig, type SimConfig } from './config';
+import type { NoiseState } from './noise';
+import type { PlacementResult } from './placement';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const SNAPSHOT_FORMAT = 'phyllotaxis-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+export interface SimulatorSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  /** Config the run was started with, including every intervention logged */
+  config: SimConfig;
+  /** Config with the current scheduled values applied */
+  current: SimConfig;
+  primordia: {
+    count: number;
+    theta: string;        // base64 Float64 (see encodeFloat64)
+    birthStep: string;
+    birthRadius: string;
+    birthTravel: string;
+    amplitude: string;
+    ablated: [number, number][];    // [index, step of ablation]
+  };
+  stepCount: number;
+  travel: number;
+  /** Per-step history (see Simulator.atStep), base64 Float64 */
+  history: {
+    travel: string;       // stepCount + 1 values
+    schedule: string;     // (stepCount + 1) × tracks values
+  };
+  firstActiveIndex: number;
+  suffixInvariant: boolean;
+  nextIntervention: number;
+  rng: NoiseState;
+  stats: {
+    exactFallbacks: number;
+    comparisons: number;
+    maxDeviation: number;
+    lastMinField: number;
+    minPlacementGap: number | null;        // null = Infinity
+    lastPlacement: SavedPlacement | null;
+  };
+}
+
+/** PlacementResult with an infinite gap stored as null (JSON has no Infinity) */
+export type SavedPlacement = Omit<PlacementResult, 'gap'> & { gap: number | null };
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/**
+ * Base64 of the values as little-endian doubles.
+ */
+export function encodeFloat64(values: Float64Array): string {
+  const view = new DataView(new ArrayBuffer(values.length * 8));
+  for (let i = 0; i < values.length; i++) {
+    view.setFloat64(i * 8, values[i], true);
+  }
+  const bytes = new Uint8Array(view.buffer);
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Inverse of encodeFloat64. Throws if the data does not hold `length` values.
+ */
+export function decodeFloat64(text: string, length: number): Float64Array {
+  const binary = atob(text);
+  if (binary.length !== length * 8) {
+    throw new Error(`Snapshot array holds ${binary.length / 8} values, expected ${length}`);
+  }
+  const view = new DataView(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    view.setUint8(i, binary.charCodeAt(i));
+  }
+  const values = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    values[i] = view.getFloat64(i * 8, true);
+  }
+  return values;
+}
+
+/** Infinity-safe number for JSON */
+export function saveNumber(x: number): number | null {
+  return isFinite(x) ? x : null;
+}
+
+export function loadNumber(x: number | null): number {
+  return x === null ? Infinity : x;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a snapshot file, checking its format and version and filling in
+ * config fields added since it was written. Throws on anything else.
+ */
+export function parseSnapshot(text: string): SimulatorSnapshot {
+  const raw = JSON.parse(text) as { format?: string; version?: number };
+  if (raw.format !== SNAPSHOT_FORMAT) {
+    throw new Error('Not a simulator snapshot');
+  }
+  if (raw.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${raw.version}`);
+  }
+  const snapshot = raw as SimulatorSnapshot;
+  return {
+    ...snapshot,
+    config: normalizeConfig(snapshot.config),
+    current: normalizeConfig(snapshot.current)
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Parameter sweeps (bifurcation diagrams).
+ *
+ * A sweep runs a fresh simulation for each value of one parameter and records
+ * the late-run divergence angles, reproducing the classic plot of divergence
+ * against the growth parameter.
+ */
+
+import { cloneConfig, type ScheduleParam, type SimConfig } from './config';
+import { applyScheduledValue, kernelHasParam, scheduleValueLimit } from './schedule';
+import { validateConfig } from './validation';
+import { Simulator } from './simulator';
+import { circularStats } from './angles';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SweepConfig {
+  param: ScheduleParam;   // any schedulable parameter: R, v, G or a kernel parameter
+  from: number;
+  to: number;
+  steps: number;          // number of values, both ends included
+  late: number;           // divergences recorded per run (last N primordia)
+}
+
+export interface SweepPoint {
+  value: number;
+  divergences: number[];  // degrees, in birth order
+  mean: number;
+  stdDev: number;
+  circularMean: number;
+  circularVariance: number;
+}
+
+export interface SweepResult {
+  param: ScheduleParam;
+  points: SweepPoint[];
+}
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+/**
+ * The swept values, evenly spaced from `from` to `to`.
+ */
+export function sweepValues(sweep: SweepConfig): number[] {
+  const values: number[] = [];
+  for (let k = 0; k < sweep.steps; k++) {
+    values.push(sweep.from + (sweep.to - sweep.from) * k / (sweep.steps - 1));
+  }
+  return values;
+}
+
+/**
+ * Config for one run: the base config with the parameter set to `value`.
+ * Schedule tracks for the swept parameter are dropped so they cannot
+ * override it. An out-of-range value leaves the base value (see validateSweep).
+ */
+export function sweepRunConfig(base: SimConfig, param: ScheduleParam, value: number): SimConfig {
+  const cfg = cloneConfig(base);
+  cfg.schedule.tracks = cfg.schedule.tracks.filter((track) => track.param !== param);
+  applyScheduledValue(cfg, param, value);
+  return cfg;
+}
+
+/**
+ * Validate a sweep against the base config. Returns error messages.
+ */
+export function validateSweep(base: SimConfig, sweep: SweepConfig): string[] {
+  const errors: string[] = [];
+
+  if (!isFinite(sweep.from) || !isFinite(sweep.to)) errors.push('Sweep range must be finite');
+  if (!Number.isInteger(sweep.steps) || sweep.steps < 2) errors.push('Sweep steps must be an integer >= 2');
+  if (!Number.isInteger(sweep.late) || sweep.late < 1) errors.push('Sweep "last N" must be an integer >= 1');
+
+  const { param } = sweep;
+  if (param === 'G' && base.drift.law === 'linear') {
+    errors.push('G only applies to exponential and custom drift laws');
+  } else if (param !== 'R' && param !== 'v' && param !== 'G' && !kernelHasParam(base.kernel, param)) {
+    errors.push(`Kernel "${base.kernel.type}" has no parameter ${param}`);
+  }
+
+  // Both ends must be in range (e.g. lambda > 0) and give valid configs
+  if (errors.length === 0) {
+    for (const value of [sweep.from, sweep.to]) {
+      const limit = scheduleValueLimit(base, param, value);
+      if (limit) errors.push(`${param} = ${value}: ${param} must ${limit}`);
+      for (const error of validateConfig(sweepRunConfig(base, param, value)).errors) {
+        errors.push(`${param} = ${value}: ${error}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// =============================================================================
+// Running
+// =============================================================================
+
+/**
+ * Run one config to totalPrimordia on a fresh simulator and return the last
+ * `late` divergences (degrees).
+ */
+export function runSweepPoint(cfg: SimConfig, late: number): number[] {
+  const sim = new Simulator();
+  sim.init(cfg);
+  sim.reset();
+  while (!sim.isComplete()) {
+    sim.runBatch();
+  }
+  return sim.recentDivergences(late);
+}
+
+// =============================================================================
+// Results
+// =============================================================================
+
+export function sweepPoint(value: number, divergences: number[]): SweepPoint {
+  const n = divergences.length;
+  const mean = n > 0 ? divergences.reduce((a, b) => a + b, 0) / n : 0;
+  const variance = n > 0 ? divergences.reduce((a, d) => a + (d - mean) ** 2, 0) / n : 0;
+  const circular = circularStats(divergences);
+  return {
+    value, divergences, mean, stdDev: Math.sqrt(variance),
+    circularMean: circular.mean, circularVariance: circular.variance
+  };
+}
+
+/**
+ * One row per recorded divergence, with the run's mean and spread repeated.
+ */
+export function formatSweepCsv(result: SweepResult): string {
+  const lines = [`${result.param},mean_deg,std_deg,circular_mean_deg,circular_variance,divergence_deg`];
+  for (const point of result.points) {
+    for (const d of point.divergences) {
+      lines.push(`${point.value},${point.mean},${point.stdDev},${point.circularMean},${point.circularVariance},${d}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
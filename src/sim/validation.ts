@@ -3,7 +3,9 @@
  */
 
 import type { SimConfig } from './config';
-import { validateExpression } from './kernel';
+import { validateExpression, usesDisplacement, CUSTOM_KERNEL_VARIABLES } from './kernel';
+import { DRIFT_VARIABLES } from './drift';
+import { SCHEDULE_PARAMS, SCHEDULE_VARIABLES, kernelHasParam, scheduleValueLimit } from './schedule';
 
 // =============================================================================
 // Validation Result
@@ -19,70 +21,269 @@ export interface ValidationResult {
 // Validate Configuration
 // =============================================================================
 
+/** Number check without coercion: rejects strings, undefined and NaN */
+const finite = (x: unknown): x is number => Number.isFinite(x);
+
+/** Largest run: the simulator allocates every primordium's arrays up front */
+export const MAX_TOTAL_PRIMORDIA = 1_000_000;
+
 export function validateConfig(cfg: SimConfig): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
 
+  // Geometry
+  const geometry = cfg.geometry;
+  switch (geometry.type) {
+    case 'disk':
+    case 'cylinder':
+      break;
+
+    case 'dome':
+      if (geometry.shape !== 'sphere' && geometry.shape !== 'paraboloid') {
+        errors.push(`Unknown dome shape: ${geometry.shape}`);
+      }
+      if (geometry.metric !== 'geodesic' && geometry.metric !== 'chordal') {
+        errors.push(`Unknown dome metric: ${geometry.metric}`);
+      }
+      if (!finite(geometry.curvature) || geometry.curvature <= 0) {
+        errors.push('Dome curvature must be > 0');
+      } else if (geometry.shape === 'sphere' && cfg.maxR * geometry.curvature >= Math.PI) {
+        errors.push('Spherical dome: maxR must be shorter than half a great circle (π / curvature)');
+      }
+      break;
+
+    default:
+      errors.push(`Unknown geometry: ${(geometry as { type: string }).type}`);
+  }
+
   // Simulation params
-  if (cfg.R <= 0) errors.push('R must be > 0');
-  if (cfg.angleSamples < 36) errors.push('angleSamples must be >= 36');
-  if (cfg.totalPrimordia < 2) errors.push('totalPrimordia must be >= 2');
-  if (cfg.batchSize < 1) errors.push('batchSize must be >= 1');
-  if (cfg.maxR <= cfg.R) errors.push('maxR must be > R');
-  if (cfg.v <= 0) errors.push('v must be > 0');
-  if (cfg.dt <= 0) errors.push('dt must be > 0');
+  if (!finite(cfg.R) || cfg.R <= 0) errors.push('R must be > 0');
+  if (!finite(cfg.angleSamples) || cfg.angleSamples < 36) errors.push('angleSamples must be >= 36');
+  if (!Number.isInteger(cfg.totalPrimordia) || cfg.totalPrimordia < 2) {
+    errors.push('totalPrimordia must be an integer >= 2');
+  } else if (cfg.totalPrimordia > MAX_TOTAL_PRIMORDIA) {
+    errors.push(`totalPrimordia must be <= ${MAX_TOTAL_PRIMORDIA} (memory for every primordium is allocated up front)`);
+  }
+  if (!finite(cfg.batchSize) || cfg.batchSize < 1) errors.push('batchSize must be >= 1');
+  if (!finite(cfg.maxR) || cfg.maxR <= cfg.R) errors.push('maxR must be > R');
+  if (!finite(cfg.v) || cfg.v <= 0) errors.push('v must be > 0');
+  if (!finite(cfg.dt) || cfg.dt <= 0) errors.push('dt must be > 0');
+
+  // Drift law
+  const drift = cfg.drift;
+  switch (drift.law) {
+    case 'linear':
+      break;
+
+    case 'exponential':
+      if (!finite(drift.G) || drift.G <= 0) errors.push('G must be > 0');
+      break;
+
+    case 'custom': {
+      const exprError = validateExpression(drift.expr, DRIFT_VARIABLES);
+      if (exprError) {
+        errors.push(`Invalid drift expression: ${exprError}`);
+      }
+      if (!finite(drift.G)) errors.push('G must be finite');
+      break;
+    }
+
+    default:
+      errors.push(`Unknown drift law: ${(drift as { law: string }).law}`);
+  }
+
+  // Organ size
+  const size = cfg.size;
+  switch (size.law) {
+    case 'none':
+      break;
+
+    case 'linear':
+    case 'exponential':
+      if (!finite(size.s0) || size.s0 < 0) errors.push('Organ size s0 must be >= 0');
+      if (!finite(size.g)) errors.push('Organ growth rate g must be finite');
+      break;
+
+    case 'proportional':
+      if (!finite(size.ratio) || size.ratio < 0) errors.push('Organ size ratio must be >= 0');
+      break;
+
+    default:
+      errors.push(`Unknown size law: ${(size as { law: string }).law}`);
+  }
+  if (size.law !== 'none' && size.edgeToEdge && cfg.fieldEval.mode === 'cutoff') {
+    warnings.push('Edge-to-edge distances use the exact field; the cutoff is ignored');
+  }
+
+  // Initiation
+  const initiation = cfg.initiation;
+  if (initiation.mode === 'threshold') {
+    if (!finite(initiation.threshold) || initiation.threshold <= 0) errors.push('threshold must be > 0');
+  } else if (initiation.mode !== 'argmin') {
+    errors.push(`Unknown initiation mode: ${(initiation as { mode: string }).mode}`);
+  }
+
+  // Placement
+  const placement = cfg.placement;
+  if (placement.solver === 'continuous') {
+    if (!Number.isInteger(placement.gridSamples) || placement.gridSamples < 8) {
+      errors.push('Placement grid must be an integer >= 8');
+    }
+    if (!finite(placement.tolerance) || placement.tolerance <= 0) errors.push('Placement tolerance must be > 0');
+  } else if (placement.solver !== 'sampled') {
+    errors.push(`Unknown placement solver: ${(placement as { solver: string }).solver}`);
+  }
+
+  // Field evaluation
+  const fieldEval = cfg.fieldEval;
+  if (fieldEval.mode === 'cutoff') {
+    if (!finite(fieldEval.tolerance) || fieldEval.tolerance <= 0) errors.push('Field evaluation tolerance must be > 0');
+    if (cfg.kernel.type === 'custom') {
+      warnings.push(usesDisplacement(cfg.kernel.expr)
+        ? 'Custom kernel uses dx, dy, dtheta or dr: no cutoff, the field is evaluated exactly'
+        : 'Custom kernel cutoff is estimated by sampling; enable "Compare with exact" to check it');
+    }
+  } else if (fieldEval.mode !== 'exact') {
+    errors.push(`Unknown field evaluation mode: ${(fieldEval as { mode: string }).mode}`);
+  }
 
   // Kernel params (based on type)
   const k = cfg.kernel;
   switch (k.type) {
     case 'exp':
-      if (k.lambda <= 0) errors.push('lambda must be > 0');
-      if (!isFinite(k.A)) errors.push('A must be finite');
+      if (!finite(k.lambda) || k.lambda <= 0) errors.push('lambda must be > 0');
+      if (!finite(k.A)) errors.push('A must be finite');
       break;
 
     case 'gaussian':
-      if (k.sigma <= 0) errors.push('sigma must be > 0');
-      if (!isFinite(k.A)) errors.push('A must be finite');
+      if (!finite(k.sigma) || k.sigma <= 0) errors.push('sigma must be > 0');
+      if (!finite(k.A)) errors.push('A must be finite');
       break;
 
     case 'softPower':
-      if (k.p <= 0) errors.push('p must be > 0');
-      if (k.eps < 0) errors.push('eps must be >= 0');
-      if (!isFinite(k.A)) errors.push('A must be finite');
+      if (!finite(k.p) || k.p <= 0) errors.push('p must be > 0');
+      if (!finite(k.eps) || k.eps < 0) errors.push('eps must be >= 0');
+      if (!finite(k.A)) errors.push('A must be finite');
       break;
 
     case 'hardCoreExp':
-      if (k.lambda <= 0) errors.push('lambda must be > 0');
-      if (k.d0 < 0) errors.push('d0 must be >= 0');
-      if (!isFinite(k.A)) errors.push('A must be finite');
+      if (!finite(k.lambda) || k.lambda <= 0) errors.push('lambda must be > 0');
+      if (!finite(k.d0) || k.d0 < 0) errors.push('d0 must be >= 0');
+      if (!finite(k.A)) errors.push('A must be finite');
       // Warning (not error) for unusually large d0
       if (k.d0 >= cfg.R) {
         warnings.push(`d0 (${k.d0}) >= R (${cfg.R}): may invalidate many/all candidate angles`);
       }
       break;
 
+    case 'ellipticalExp':
+      if (!finite(k.lambda) || k.lambda <= 0) errors.push('lambda must be > 0');
+      if (!finite(k.aspect) || k.aspect <= 0) errors.push('aspect must be > 0');
+      if (!finite(k.A)) errors.push('A must be finite');
+      break;
+
     case 'custom': {
-      const exprError = validateExpression(k.expr);
+      const exprError = validateExpression(k.expr, CUSTOM_KERNEL_VARIABLES);
       if (exprError) {
         errors.push(`Invalid expression: ${exprError}`);
       }
       // Validate custom params
-      if (k.params.lambda <= 0) errors.push('lambda must be > 0');
-      if (k.params.sigma <= 0) errors.push('sigma must be > 0');
-      if (k.params.p <= 0) errors.push('p must be > 0');
-      if (k.params.eps < 0) errors.push('eps must be >= 0');
-      if (k.params.d0 < 0) errors.push('d0 must be >= 0');
+      if (!finite(k.params.lambda) || k.params.lambda <= 0) errors.push('lambda must be > 0');
+      if (!finite(k.params.sigma) || k.params.sigma <= 0) errors.push('sigma must be > 0');
+      if (!finite(k.params.p) || k.params.p <= 0) errors.push('p must be > 0');
+      if (!finite(k.params.eps) || k.params.eps < 0) errors.push('eps must be >= 0');
+      if (!finite(k.params.d0) || k.params.d0 < 0) errors.push('d0 must be >= 0');
+      if (!finite(k.params.A)) errors.push('A must be finite');
       break;
     }
   }
 
+  // Schedule
+  if (cfg.schedule.enabled) {
+    if (cfg.schedule.variable !== 'index' && cfg.schedule.variable !== 'time') {
+      errors.push(`Unknown schedule variable: ${cfg.schedule.variable}`);
+    }
+    const seen = new Set<string>();
+    for (const track of cfg.schedule.tracks) {
+      const name = track.param;
+      if (!SCHEDULE_PARAMS.includes(name)) {
+        errors.push(`Schedule: unknown parameter ${name}`);
+        continue;
+      }
+      if (seen.has(name)) warnings.push(`Schedule: ${name} scheduled twice, last track wins`);
+      seen.add(name);
+
+      if (name === 'G' && cfg.drift.law === 'linear') {
+        warnings.push('Schedule: G has no effect with the linear drift law');
+      } else if (name !== 'R' && name !== 'v' && name !== 'G' && !kernelHasParam(cfg.kernel, name)) {
+        warnings.push(`Schedule: ${cfg.kernel.type} kernel has no parameter ${name}`);
+      }
+
+      if (track.type === 'keyframes') {
+        const frames = track.keyframes;
+        if (frames.length === 0) errors.push(`Schedule: ${name} needs at least one keyframe`);
+        if (frames.some((k) => !finite(k.at))) {
+          errors.push(`Schedule: ${name} keyframes must be finite`);
+        }
+        const limits = new Set(frames.map((k) => scheduleValueLimit(cfg, name, k.value)));
+        for (const limit of limits) {
+          if (limit) errors.push(`Schedule: ${name} keyframes must ${limit}`);
+        }
+      } else {
+        const exprError = validateExpression(track.expr, SCHEDULE_VARIABLES);
+        if (exprError) errors.push(`Schedule: invalid ${name} expression: ${exprError}`);
+      }
+    }
+  }
+
+  // Interventions
+  for (const intervention of cfg.interventions) {
+    if (!Number.isInteger(intervention.step) || intervention.step < 0) {
+      errors.push(`Intervention step must be an integer >= 0 (got ${intervention.step})`);
+    }
+    switch (intervention.type) {
+      case 'ablate':
+        if (!Number.isInteger(intervention.index) || intervention.index < 0) {
+          errors.push(`Intervention at step ${intervention.step}: ablated index must be an integer >= 0`);
+        } else if (intervention.index >= cfg.totalPrimordia) {
+          warnings.push(`Intervention at step ${intervention.step}: primordium #${intervention.index} is never born`);
+        }
+        break;
+      case 'insert':
+        if (!finite(intervention.thetaDeg)) {
+          errors.push(`Intervention at step ${intervention.step}: insertion angle must be finite`);
+        }
+        break;
+      default:
+        errors.push(`Unknown intervention: ${(intervention as { type: string }).type}`);
+    }
+  }
+
   // Noise params
-  if (cfg.noise.enabled) {
-    if (cfg.noise.sigmaThetaDeg < 0) errors.push('noise sigma must be >= 0');
+  const noise = cfg.noise;
+  if (!finite(noise.seed)) errors.push('noise seed must be a finite number');
+  if (noise.enabled) {
+    if (noise.model === 'gaussian') {
+      if (!finite(noise.sigmaThetaDeg) || noise.sigmaThetaDeg < 0) errors.push('noise sigma must be >= 0');
+    } else if (noise.model === 'vonMises') {
+      if (!finite(noise.kappa) || noise.kappa < 0) errors.push('noise kappa must be >= 0 and finite');
+    } else {
+      errors.push(`Unknown angular noise model: ${noise.model as string}`);
+    }
+  }
+  const sources = [['birth radius', noise.birthRadius], ['amplitude', noise.amplitude], ['timing', noise.timing]] as const;
+  for (const [name, source] of sources) {
+    if (source.enabled && (!finite(source.sigma) || source.sigma < 0)) errors.push(`${name} noise sigma must be >= 0`);
+  }
+  if (noise.timing.enabled && cfg.initiation.mode !== 'threshold') {
+    warnings.push('Timing noise only applies to threshold initiation');
+  }
+  if (noise.amplitude.enabled && cfg.fieldEval.mode === 'cutoff') {
+    warnings.push('Amplitude noise uses the exact field; the cutoff is ignored');
   }
 
   // Render params
-  if (cfg.render.pointRadius <= 0) errors.push('pointRadius must be > 0');
+  if (!finite(cfg.render.pointRadius) || cfg.render.pointRadius <= 0) errors.push('pointRadius must be > 0');
 
   return { valid: errors.length === 0, errors, warnings };
 }
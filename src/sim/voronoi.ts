@@ -0,0 +1,614 @@
+/**
+ * Voronoi tessellation and packing analysis.
+ *
+ * Triangulates the primordia (Delaunay, by the sweep-hull method of Mapbox's
+ * Delaunator, ISC licence; see the notice below) and takes
+ * each Voronoi cell as the circumcentres of the triangles around a primordium.
+ * Positions are planar as in parastichy detection: (r cos θ, r sin θ) on the
+ * disk and dome, the unrolled (arc, height) lattice with ghost copies either
+ * side of the seam on the cylinder.
+ *
+ * Only closed cells are analysed: cells of hull primordia are unbounded, and
+ * cells touching a triangle that spans a gap (the bare centre of the disk, the
+ * rim) are bounded by the gap rather than by neighbours.
+ */
+
+import type { PrimordiaView } from './primordia';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface VoronoiCell {
+  index: number;           // primordium index
+  vertices: Float64Array;  // x0, y0, x1, y1, … in the analysis plane
+  area: number;
+  sides: number;           // 5 and 7 are the usual defects in a hexagonal packing
+  packing: number;         // inscribed-disc area / cell area, relative to hexagonal (1)
+}
+
+export interface TessellationStats {
+  cells: number;           // closed cells analysed
+  boundary: number;        // primordia whose cells are open or unbounded
+  meanArea: number;
+  areaCV: number;          // standard deviation / mean of the cell area
+  sideCounts: Record<number, number>;
+  pentagons: number;
+  heptagons: number;
+  defects: number;         // closed cells that are not hexagons
+  packingEfficiency: number; // Σ inscribed-disc area / Σ cell area, relative to hexagonal
+}
+
+export interface Tessellation {
+  cells: VoronoiCell[];
+  stats: TessellationStats;
+}
+
+export interface TessellationOptions {
+  cylinderRadius?: number;  // set for cylinder geometry (r - R is height on the stem)
+}
+
+export interface Triangulation {
+  triangles: Int32Array;   // three point indices per triangle
+  halfedges: Int32Array;   // opposite half-edge of each half-edge, -1 on the hull
+  hull: Int32Array;        // hull points in order
+}
+
+/** Density of equal discs in a hexagonal packing, π / (2√3) */
+const HEXAGONAL_DENSITY = Math.PI / (2 * Math.sqrt(3));
+
+/**
+ * A triangle spans a gap when its circumradius exceeds this multiple of the
+ * largest mean edge length at its corners (a hexagonal lattice gives 1/√3,
+ * a square one about 0.6, stretched lattices about as much).
+ */
+const OPEN_TRIANGLE_RATIO = 1;
+
+/** Cell edges shorter than this fraction of the site spacing are merged */
+const SHORT_EDGE = 1e-6;
+
+// =============================================================================
+// Tessellation
+// =============================================================================
+
+/**
+ * Voronoi cells of the primordia, with per-cell area, sides and packing.
+ */
+export function computeTessellation(
+  primordia: PrimordiaView,
+  options: TessellationOptions = {}
+): Tessellation {
+  const count = primordia.count;
+  const R = options.cylinderRadius;
+  const copies = R !== undefined ? 3 : 1;
+  const coords = new Float64Array(2 * count * copies);
+  for (let i = 0; i < count; i++) {
+    const r = primordia.radius(i);
+    if (R !== undefined) {
+      const circumference = 2 * Math.PI * R;
+      for (let c = 0; c < copies; c++) {
+        const k = c * count + i;
+        coords[2 * k] = R * primordia.theta(i) + (c - 1) * circumference;
+        coords[2 * k + 1] = r - R;
+      }
+    } else {
+      coords[2 * i] = r * primordia.cos(i);
+      coords[2 * i + 1] = r * primordia.sin(i);
+    }
+  }
+  // The middle copy holds the cells reported on the cylinder
+  const first = R !== undefined ? count : 0;
+
+  const { triangles, halfedges } = delaunay(coords);
+  const points = coords.length / 2;
+
+  // Incoming half-edge of each point, a hull edge where there is one
+  const inedges = new Int32Array(points).fill(-1);
+  for (let e = 0; e < triangles.length; e++) {
+    const p = triangles[nextHalfedge(e)];
+    if (halfedges[e] === -1 || inedges[p] === -1) inedges[p] = e;
+  }
+
+  // Nearest-neighbour distance and mean edge length of each point, along
+  // Delaunay edges (each edge once)
+  const nearest = new Float64Array(points).fill(Infinity);
+  const spacing = new Float64Array(points);
+  const degree = new Int32Array(points);
+  for (let e = 0; e < triangles.length; e++) {
+    if (halfedges[e] !== -1 && halfedges[e] < e) continue;
+    const a = triangles[e];
+    const b = triangles[nextHalfedge(e)];
+    const d = Math.hypot(coords[2 * a] - coords[2 * b], coords[2 * a + 1] - coords[2 * b + 1]);
+    if (d < nearest[a]) nearest[a] = d;
+    if (d < nearest[b]) nearest[b] = d;
+    spacing[a] += d;
+    spacing[b] += d;
+    degree[a]++;
+    degree[b]++;
+  }
+  for (let p = 0; p < points; p++) {
+    if (degree[p] > 0) spacing[p] /= degree[p];
+  }
+
+  // Circumcentres, and whether each triangle spans a gap
+  const triangleCount = triangles.length / 3;
+  const centres = new Float64Array(2 * triangleCount);
+  const open = new Uint8Array(triangleCount);
+  for (let t = 0; t < triangleCount; t++) {
+    const a = triangles[3 * t];
+    const b = triangles[3 * t + 1];
+    const c = triangles[3 * t + 2];
+    const ax = coords[2 * a], ay = coords[2 * a + 1];
+    const { x, y } = circumcenter(ax, ay, coords[2 * b], coords[2 * b + 1], coords[2 * c], coords[2 * c + 1]);
+    centres[2 * t] = x;
+    centres[2 * t + 1] = y;
+    const scale = Math.max(spacing[a], spacing[b], spacing[c]);
+    if (!(Math.hypot(x - ax, y - ay) <= OPEN_TRIANGLE_RATIO * scale)) open[t] = 1;
+  }
+
+  const cells: VoronoiCell[] = [];
+  let boundary = 0;
+  for (let i = 0; i < count; i++) {
+    const cell = closedCell(first + i, i, inedges, halfedges, centres, open, nearest);
+    if (cell) cells.push(cell);
+    else boundary++;
+  }
+
+  return { cells, stats: tessellationStats(cells, boundary, nearest, first) };
+}
+
+/**
+ * The cell of point p (primordium `index`), or null if it is unbounded or
+ * touches an open triangle.
+ */
+function closedCell(
+  p: number,
+  index: number,
+  inedges: Int32Array,
+  halfedges: Int32Array,
+  centres: Float64Array,
+  open: Uint8Array,
+  nearest: Float64Array
+): VoronoiCell | null {
+  const e0 = inedges[p];
+  if (e0 === -1) return null;
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const minEdge = SHORT_EDGE * nearest[p];
+  let e = e0;
+  do {
+    const t = Math.floor(e / 3);
+    if (open[t]) return null;
+    const x = centres[2 * t];
+    const y = centres[2 * t + 1];
+    const last = xs.length - 1;
+    if (last < 0 || Math.hypot(x - xs[last], y - ys[last]) > minEdge) {
+      xs.push(x);
+      ys.push(y);
+    }
+    e = halfedges[nextHalfedge(e)];
+    if (e === -1) return null;  // hull point: the cell is unbounded
+  } while (e !== e0);
+  if (xs.length > 1 && Math.hypot(xs[0] - xs[xs.length - 1], ys[0] - ys[ys.length - 1]) <= minEdge) {
+    xs.pop();
+    ys.pop();
+  }
+
+  const sides = xs.length;
+  let twiceArea = 0;
+  for (let k = 0; k < sides; k++) {
+    const next = (k + 1) % sides;
+    twiceArea += xs[k] * ys[next] - xs[next] * ys[k];
+  }
+  const area = Math.abs(twiceArea) / 2;
+  const vertices = new Float64Array(2 * sides);
+  for (let k = 0; k < sides; k++) {
+    vertices[2 * k] = xs[k];
+    vertices[2 * k + 1] = ys[k];
+  }
+  const disc = Math.PI * (nearest[p] / 2) ** 2;
+  return { index, vertices, area, sides, packing: area > 0 ? disc / area / HEXAGONAL_DENSITY : 0 };
+}
+
+function tessellationStats(
+  cells: VoronoiCell[],
+  boundary: number,
+  nearest: Float64Array,
+  first: number
+): TessellationStats {
+  const n = cells.length;
+  const sideCounts: Record<number, number> = {};
+  let totalArea = 0;
+  let totalDisc = 0;
+  for (const cell of cells) {
+    sideCounts[cell.sides] = (sideCounts[cell.sides] ?? 0) + 1;
+    totalArea += cell.area;
+    totalDisc += Math.PI * (nearest[first + cell.index] / 2) ** 2;
+  }
+  const meanArea = n > 0 ? totalArea / n : 0;
+  const variance = n > 0 ? cells.reduce((a, c) => a + (c.area - meanArea) ** 2, 0) / n : 0;
+  return {
+    cells: n,
+    boundary,
+    meanArea,
+    areaCV: meanArea > 0 ? Math.sqrt(variance) / meanArea : 0,
+    sideCounts,
+    pentagons: sideCounts[5] ?? 0,
+    heptagons: sideCounts[7] ?? 0,
+    defects: n - (sideCounts[6] ?? 0),
+    packingEfficiency: totalArea > 0 ? totalDisc / totalArea / HEXAGONAL_DENSITY : 0
+  };
+}
+
+// =============================================================================
+// Delaunay Triangulation (sweep-hull)
+// =============================================================================
+
+/*
+ * Adapted from Delaunator 5.0 (https://github.com/mapbox/delaunator), under
+ * the following licence:
+ *
+ * ISC License
+ *
+ * Copyright (c) 2021, Mapbox
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any purpose
+ * with or without fee is hereby granted, provided that the above copyright notice
+ * and this permission notice appear in all copies.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES WITH
+ * REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF MERCHANTABILITY AND
+ * FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY SPECIAL, DIRECT,
+ * INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES WHATSOEVER RESULTING FROM LOSS
+ * OF USE, DATA OR PROFITS, WHETHER IN AN ACTION OF CONTRACT, NEGLIGENCE OR OTHER
+ * TORTIOUS ACTION, ARISING OUT OF OR IN CONNECTION WITH THE USE OR PERFORMANCE OF
+ * THIS SOFTWARE.
+ */
+
+const EPSILON = Math.pow(2, -52);
+
+function nextHalfedge(e: number): number {
+  return e % 3 === 2 ? e - 2 : e + 1;
+}
+
+/**
+ * Delaunay triangulation of points given as x0, y0, x1, y1, …
+ *
+ * Points are added in order of distance from a seed triangle, each joined to
+ * the hull edges it can see, and edges are flipped until every triangle's
+ * circumcircle is empty. Coincident points are skipped; fewer than three
+ * non-collinear points give no triangles.
+ */
+export function delaunay(coords: Float64Array): Triangulation {
+  const n = coords.length >> 1;
+  const maxTriangles = Math.max(2 * n - 5, 0);
+  const triangles = new Int32Array(maxTriangles * 3);
+  const halfedges = new Int32Array(maxTriangles * 3);
+  let trianglesLen = 0;
+
+  const empty = (): Triangulation => ({
+    triangles: new Int32Array(0),
+    halfedges: new Int32Array(0),
+    hull: new Int32Array(0)
+  });
+  if (n < 3) return empty();
+
+  const hashSize = Math.ceil(Math.sqrt(n));
+  const hullPrev = new Int32Array(n);
+  const hullNext = new Int32Array(n);
+  const hullTri = new Int32Array(n);
+  const hullHash = new Int32Array(hashSize).fill(-1);
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < n; i++) {
+    const x = coords[2 * i];
+    const y = coords[2 * i + 1];
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  }
+  const midX = (minX + maxX) / 2;
+  const midY = (minY + maxY) / 2;
+
+  // Seed triangle: the point nearest the centre, its nearest neighbour, and
+  // the point making the smallest circumcircle with them
+  let i0 = 0;
+  let minDist = Infinity;
+  for (let i = 0; i < n; i++) {
+    const d = dist2(midX, midY, coords[2 * i], coords[2 * i + 1]);
+    if (d < minDist) {
+      i0 = i;
+      minDist = d;
+    }
+  }
+  const i0x = coords[2 * i0];
+  const i0y = coords[2 * i0 + 1];
+
+  let i1 = -1;
+  minDist = Infinity;
+  for (let i = 0; i < n; i++) {
+    if (i === i0) continue;
+    const d = dist2(i0x, i0y, coords[2 * i], coords[2 * i + 1]);
+    if (d < minDist && d > 0) {
+      i1 = i;
+      minDist = d;
+    }
+  }
+  if (i1 === -1) return empty();
+  let i1x = coords[2 * i1];
+  let i1y = coords[2 * i1 + 1];
+
+  let i2 = -1;
+  let minRadius = Infinity;
+  for (let i = 0; i < n; i++) {
+    if (i === i0 || i === i1) continue;
+    const r = circumradius2(i0x, i0y, i1x, i1y, coords[2 * i], coords[2 * i + 1]);
+    if (r < minRadius) {
+      i2 = i;
+      minRadius = r;
+    }
+  }
+  if (i2 === -1 || minRadius === Infinity) return empty();  // all collinear
+  let i2x = coords[2 * i2];
+  let i2y = coords[2 * i2 + 1];
+
+  if (orient2d(i0x, i0y, i1x, i1y, i2x, i2y) < 0) {
+    [i1, i2] = [i2, i1];
+    [i1x, i2x] = [i2x, i1x];
+    [i1y, i2y] = [i2y, i1y];
+  }
+
+  const centre = circumcenter(i0x, i0y, i1x, i1y, i2x, i2y);
+  const hashKey = (x: number, y: number) =>
+    Math.floor(pseudoAngle(x - centre.x, y - centre.y) * hashSize) % hashSize;
+
+  // Insertion order: distance from the seed circumcentre
+  const dists = new Float64Array(n);
+  for (let i = 0; i < n; i++) dists[i] = dist2(coords[2 * i], coords[2 * i + 1], centre.x, centre.y);
+  const ids = Int32Array.from({ length: n }, (_, i) => i).sort((a, b) => dists[a] - dists[b]);
+
+  const link = (a: number, b: number) => {
+    halfedges[a] = b;
+    if (b !== -1) halfedges[b] = a;
+  };
+  const addTriangle = (a: number, b: number, c: number, ha: number, hb: number, hc: number): number => {
+    const t = trianglesLen;
+    triangles[t] = a;
+    triangles[t + 1] = b;
+    triangles[t + 2] = c;
+    link(t, ha);
+    link(t + 1, hb);
+    link(t + 2, hc);
+    trianglesLen += 3;
+    return t;
+  };
+
+  let hullStart = i0;
+  let hullSize = 3;
+
+  // Flip edge a and its neighbours until the Delaunay condition holds;
+  // returns the half-edge now opposite the new point
+  const edgeStack: number[] = [];
+  const legalize = (start: number): number => {
+    let a = start;
+    let ar = 0;
+    for (;;) {
+      const b = halfedges[a];
+      const a0 = a - a % 3;
+      ar = a0 + (a + 2) % 3;
+
+      if (b === -1) {
+        if (edgeStack.length === 0) break;
+        a = edgeStack.pop()!;
+        continue;
+      }
+
+      const b0 = b - b % 3;
+      const al = a0 + (a + 1) % 3;
+      const bl = b0 + (b + 2) % 3;
+      const p0 = triangles[ar];
+      const pr = triangles[a];
+      const pl = triangles[al];
+      const p1 = triangles[bl];
+
+      const illegal = inCircle(
+        coords[2 * p0], coords[2 * p0 + 1],
+        coords[2 * pr], coords[2 * pr + 1],
+        coords[2 * pl], coords[2 * pl + 1],
+        coords[2 * p1], coords[2 * p1 + 1]
+      );
+
+      if (illegal) {
+        triangles[a] = p1;
+        triangles[b] = p0;
+        const hbl = halfedges[bl];
+        // The flipped edge was on the hull: repoint its hull triangle
+        if (hbl === -1) {
+          let e = hullStart;
+          do {
+            if (hullTri[e] === bl) {
+              hullTri[e] = a;
+              break;
+            }
+            e = hullPrev[e];
+          } while (e !== hullStart);
+        }
+        link(a, hbl);
+        link(b, halfedges[ar]);
+        link(ar, bl);
+        edgeStack.push(b0 + (b + 1) % 3);
+      } else {
+        if (edgeStack.length === 0) break;
+        a = edgeStack.pop()!;
+      }
+    }
+    return ar;
+  };
+
+  hullNext[i0] = hullPrev[i2] = i1;
+  hullNext[i1] = hullPrev[i0] = i2;
+  hullNext[i2] = hullPrev[i1] = i0;
+  hullTri[i0] = 0;
+  hullTri[i1] = 1;
+  hullTri[i2] = 2;
+  hullHash[hashKey(i0x, i0y)] = i0;
+  hullHash[hashKey(i1x, i1y)] = i1;
+  hullHash[hashKey(i2x, i2y)] = i2;
+  addTriangle(i0, i1, i2, -1, -1, -1);
+
+  let xp = 0;
+  let yp = 0;
+  for (let k = 0; k < n; k++) {
+    const i = ids[k];
+    const x = coords[2 * i];
+    const y = coords[2 * i + 1];
+
+    // Skip coincident points and the seed triangle
+    if (k > 0 && Math.abs(x - xp) <= EPSILON && Math.abs(y - yp) <= EPSILON) continue;
+    xp = x;
+    yp = y;
+    if (i === i0 || i === i1 || i === i2) continue;
+
+    // A hull point near the new one, by angle about the seed circumcentre
+    let start = 0;
+    for (let j = 0, key = hashKey(x, y); j < hashSize; j++) {
+      start = hullHash[(key + j) % hashSize];
+      if (start !== -1 && start !== hullNext[start]) break;
+    }
+
+    // First hull edge visible from the point
+    start = hullPrev[start];
+    let e = start;
+    let q = hullNext[e];
+    while (orient2d(x, y, coords[2 * e], coords[2 * e + 1], coords[2 * q], coords[2 * q + 1]) >= 0) {
+      e = q;
+      if (e === start) {
+        e = -1;
+        break;
+      }
+      q = hullNext[e];
+    }
+    if (e === -1) continue;  // numerically inside the hull: a near-duplicate
+
+    let t = addTriangle(e, i, hullNext[e], -1, -1, hullTri[e]);
+    hullTri[i] = legalize(t + 2);
+    hullTri[e] = t;
+    hullSize++;
+
+    // Walk forward along the hull, adding triangles
+    let next = hullNext[e];
+    q = hullNext[next];
+    while (orient2d(x, y, coords[2 * next], coords[2 * next + 1], coords[2 * q], coords[2 * q + 1]) < 0) {
+      t = addTriangle(next, i, q, hullTri[i], -1, hullTri[next]);
+      hullTri[i] = legalize(t + 2);
+      hullNext[next] = next;  // removed from the hull
+      hullSize--;
+      next = q;
+      q = hullNext[next];
+    }
+
+    // Walk backward from the other side
+    if (e === start) {
+      q = hullPrev[e];
+      while (orient2d(x, y, coords[2 * q], coords[2 * q + 1], coords[2 * e], coords[2 * e + 1]) < 0) {
+        t = addTriangle(q, i, e, -1, hullTri[e], hullTri[q]);
+        legalize(t + 2);
+        hullTri[q] = t;
+        hullNext[e] = e;  // removed from the hull
+        hullSize--;
+        e = q;
+        q = hullPrev[e];
+      }
+    }
+
+    hullStart = hullPrev[i] = e;
+    hullNext[e] = hullPrev[next] = i;
+    hullNext[i] = next;
+    hullHash[hashKey(x, y)] = i;
+    hullHash[hashKey(coords[2 * e], coords[2 * e + 1])] = e;
+  }
+
+  const hull = new Int32Array(hullSize);
+  for (let k = 0, e = hullStart; k < hullSize; k++) {
+    hull[k] = e;
+    e = hullNext[e];
+  }
+
+  return {
+    triangles: triangles.slice(0, trianglesLen),
+    halfedges: halfedges.slice(0, trianglesLen),
+    hull
+  };
+}
+
+// =============================================================================
+// Geometry Helpers
+// =============================================================================
+
+function dist2(ax: number, ay: number, bx: number, by: number): number {
+  const dx = ax - bx;
+  const dy = ay - by;
+  return dx * dx + dy * dy;
+}
+
+/** Sign of the turn a → b → c (negative when c is left of a → b with y down) */
+function orient2d(ax: number, ay: number, bx: number, by: number, cx: number, cy: number): number {
+  return (ay - cy) * (bx - cx) - (ax - cx) * (by - cy);
+}
+
+/** True if p lies inside the circumcircle of triangle a, b, c */
+function inCircle(
+  ax: number, ay: number,
+  bx: number, by: number,
+  cx: number, cy: number,
+  px: number, py: number
+): boolean {
+  const dx = ax - px;
+  const dy = ay - py;
+  const ex = bx - px;
+  const ey = by - py;
+  const fx = cx - px;
+  const fy = cy - py;
+  const ap = dx * dx + dy * dy;
+  const bp = ex * ex + ey * ey;
+  const cp = fx * fx + fy * fy;
+  return dx * (ey * cp - bp * fy) - dy * (ex * cp - bp * fx) + ap * (ex * fy - ey * fx) < 0;
+}
+
+/** Squared circumradius (Infinity for collinear points) */
+function circumradius2(ax: number, ay: number, bx: number, by: number, cx: number, cy: number): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const ex = cx - ax;
+  const ey = cy - ay;
+  const bl = dx * dx + dy * dy;
+  const cl = ex * ex + ey * ey;
+  const d = 0.5 / (dx * ey - dy * ex);
+  const x = (ey * bl - dy * cl) * d;
+  const y = (dx * cl - ex * bl) * d;
+  const r = x * x + y * y;
+  return isFinite(r) ? r : Infinity;
+}
+
+function circumcenter(
+  ax: number, ay: number,
+  bx: number, by: number,
+  cx: number, cy: number
+): { x: number; y: number } {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const ex = cx - ax;
+  const ey = cy - ay;
+  const bl = dx * dx + dy * dy;
+  const cl = ex * ex + ey * ey;
+  const d = 0.5 / (dx * ey - dy * ex);
+  return { x: ax + (ey * bl - dy * cl) * d, y: ay + (dx * cl - ex * bl) * d };
+}
+
+/** Monotone in the angle of (dx, dy), in [0, 1) */
+function pseudoAngle(dx: number, dy: number): number {
+  const p = dx / (Math.abs(dx) + Math.abs(dy));
+  return (dy > 0 ? 3 - p : 1 + p) / 4;
+}
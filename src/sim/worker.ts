@@ -0,0 +1,109 @@
+/**
+ * Simulation worker: owns a Simulator and answers SimRequest messages.
+ */
+
+import { Simulator } from './simulator';
+import { runSweepPoint } from './sweep';
+import {
+  collectFrame,
+  collectMetrics,
+  collectStatus,
+  collectUpdate,
+  updateTransfer,
+  type PrimordiaUpdate,
+  type SimRequest,
+  type SimResponse
+} from './protocol';
+
+const simulator = new Simulator();
+
+// Primordia and ablations the main thread already has
+let sent = 0;
+let sentAblations = 0;
+
+function post(response: SimResponse, transfer: Transferable[] = []): void {
+  self.postMessage(response, { transfer });
+}
+
+/** Update with everything the main thread does not have yet */
+function collectNew(): PrimordiaUpdate {
+  const update = collectUpdate(simulator, sent, sentAblations);
+  sent = update.count;
+  sentAblations += update.ablations.length;
+  return update;
+}
+
+function postState(id: number): void {
+  const update = collectNew();
+  post({ id, type: 'state', status: collectStatus(simulator), update }, updateTransfer(update));
+}
+
+self.onmessage = (e: MessageEvent<SimRequest>) => {
+  const request = e.data;
+  try {
+    switch (request.type) {
+      case 'init':
+        simulator.init(request.cfg);
+        simulator.reset();
+        sent = 0;
+        sentAblations = 0;
+        postState(request.id);
+        break;
+      case 'reset':
+        simulator.reset();
+        sent = 0;
+        sentAblations = 0;
+        postState(request.id);
+        break;
+      case 'step':
+        simulator.step();
+        postState(request.id);
+        break;
+      case 'batch':
+        simulator.runBatch();
+        postState(request.id);
+        break;
+      case 'fieldValues': {
+        const values = simulator.getFieldValues();
+        post({ id: request.id, type: 'fieldValues', values }, [values.buffer]);
+        break;
+      }
+      case 'metrics':
+        post({ id: request.id, type: 'metrics', metrics: collectMetrics(simulator) });
+        break;
+      case 'intervene': {
+        const intervention = simulator.intervene(request.action);
+        const update = collectNew();
+        post(
+          { id: request.id, type: 'intervened', intervention, status: collectStatus(simulator), update },
+          updateTransfer(update)
+        );
+        break;
+      }
+      case 'snapshot':
+        post({ id: request.id, type: 'snapshot', snapshot: simulator.serialize() });
+        break;
+      case 'restore':
+        simulator.restore(request.snapshot);
+        sent = 0;
+        sentAblations = 0;
+        postState(request.id);
+        break;
+      case 'frame': {
+        const frame = collectFrame(simulator, request.step, request.field);
+        post(
+          { id: request.id, type: 'frame', frame },
+          [frame.field.buffer as ArrayBuffer]
+        );
+        break;
+      }
+      case 'sweepRun': {
+        const values = Float64Array.from(runSweepPoint(request.cfg, request.late));
+        post({ id: request.id, type: 'divergences', values }, [values.buffer]);
+        break;
+      }
+    }
+  } catch (err) {
+    post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
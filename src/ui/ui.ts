@@ -6,12 +6,35 @@
 import {
   type SimConfig,
   type KernelConfig,
+  type GeometryConfig,
+  type DomeShape,
+  type DomeMetric,
+  type DriftConfig,
+  type SizeConfig,
+  type InitiationConfig,
+  type PlacementConfig,
+  type AngleNoiseModel,
+  type VoronoiColoring,
+  type Intervention,
   defaultConfig,
   cloneConfig,
+  normalizeConfig,
   PRESETS
 } from '../sim/config';
-import { validateConfig, type ValidationResult } from '../sim/validation';
-import { validateExpression } from '../sim/kernel';
+import { validateConfig, MAX_TOTAL_PRIMORDIA, type ValidationResult } from '../sim/validation';
+import { validateExpression, CUSTOM_KERNEL_VARIABLES } from '../sim/kernel';
+import { DRIFT_VARIABLES } from '../sim/drift';
+import { formatScheduleTracks, parseScheduleText, SCHEDULE_PARAMS, SCHEDULE_VARIABLES } from '../sim/schedule';
+import { validateSweep, type SweepConfig } from '../sim/sweep';
+import { describeIntervention } from '../sim/interventions';
+import { parseSnapshot, type SimulatorSnapshot } from '../sim/snapshot';
+import type { DataFormat } from '../sim/export';
+import {
+  validateImageSettings,
+  validateRecordInterval,
+  type ImageBackground,
+  type ImageSettings
+} from '../render/image';
 
 // =============================================================================
 // Types
@@ -24,8 +47,30 @@ export interface UICallbacks {
   onStep: () => void;
   onReset: () => void;
   onUpdateFieldPlot: () => void;
+  onRunSweep: (base: SimConfig, sweep: SweepConfig) => void;
+  onStopSweep: () => void;
+  onExportSweep: () => void;
+  onExportDivergence: () => void;
+  onExportSvg: () => void;
+  onExportData: (format: DataFormat) => void;
+  onSavePng: (settings: ImageSettings) => void;
+  onStartRecording: (settings: ImageSettings, every: number) => void;
+  onStopRecording: () => void;
+  onSaveRecording: () => void;
+  onDivergenceZoom: (factor: number, fraction: number) => void;
+  onDivergenceZoomReset: () => void;
+  onSweepModeChange: () => void;
+  onClearInterventions: () => void;
+  onSaveCheckpoint: () => void;
+  onLoadCheckpoint: (snapshot: SimulatorSnapshot) => void;
+  onTimelineScrub: (step: number) => void;
+  onTimelinePlay: (direction: 1 | -1) => void;
+  onTimelineStop: () => void;
+  onTimelineLive: () => void;
 }
 
+export type SweepPlotMode = 'mean' | 'scatter';
+
 // =============================================================================
 // URL Hash Encoding (Unicode-safe)
 // =============================================================================
@@ -38,12 +83,32 @@ function encodeConfigToHash(cfg: SimConfig): string {
 function decodeConfigFromHash(hash: string): SimConfig | null {
   try {
     const json = decodeURIComponent(atob(hash));
-    return JSON.parse(json);
+    return normalizeConfig(JSON.parse(json));
   } catch {
     return null;
   }
 }
 
+// =============================================================================
+// Downloads
+// =============================================================================
+
+/**
+ * Save text as a file via a temporary object URL.
+ */
+export function downloadText(text: string, filename: string, type: string): void {
+  downloadBlob(new Blob([text], { type }), filename);
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 // =============================================================================
 // UI Class
 // =============================================================================
@@ -67,14 +132,40 @@ export class UI {
   private presetSelect!: HTMLSelectElement;
 
   // Simulation params
+  private geometrySelect!: HTMLSelectElement;
+  private geometryParamsDiv!: HTMLElement;
+  private domeShapeSelect!: HTMLSelectElement;
+  private inputDomeCurvature!: HTMLInputElement;
+  private domeMetricSelect!: HTMLSelectElement;
   private inputR!: HTMLInputElement;
   private inputV!: HTMLInputElement;
   private inputDt!: HTMLInputElement;
+  private driftLawSelect!: HTMLSelectElement;
+  private driftParamsDiv!: HTMLElement;
+  private inputDriftG!: HTMLInputElement;
+  private driftExprTextarea!: HTMLTextAreaElement;
+  private driftExprValidation!: HTMLElement;
+  private sizeLawSelect!: HTMLSelectElement;
+  private sizeParamsDiv!: HTMLElement;
+  private inputSizeS0!: HTMLInputElement;
+  private inputSizeG!: HTMLInputElement;
+  private inputSizeRatio!: HTMLInputElement;
+  private edgeToEdgeCheckbox!: HTMLInputElement;
+  private initiationModeSelect!: HTMLSelectElement;
+  private inputThreshold!: HTMLInputElement;
   private inputMaxR!: HTMLInputElement;
   private inputAngleSamples!: HTMLInputElement;
+  private placementSolverSelect!: HTMLSelectElement;
+  private inputPlacementGrid!: HTMLInputElement;
+  private inputPlacementTolerance!: HTMLInputElement;
   private inputTotalPrimordia!: HTMLInputElement;
   private inputBatchSize!: HTMLInputElement;
 
+  // Field evaluation
+  private fieldEvalModeSelect!: HTMLSelectElement;
+  private inputFieldEvalTolerance!: HTMLInputElement;
+  private compareExactCheckbox!: HTMLInputElement;
+
   // Kernel
   private kernelTypeSelect!: HTMLSelectElement;
   private kernelParamsDiv!: HTMLElement;
@@ -84,26 +175,91 @@ export class UI {
   private inputKernelP!: HTMLInputElement;
   private inputKernelEps!: HTMLInputElement;
   private inputKernelD0!: HTMLInputElement;
+  private inputKernelAspect!: HTMLInputElement;
   private customExprTextarea!: HTMLTextAreaElement;
   private customExprValidation!: HTMLElement;
 
+  // Schedule
+  private scheduleEnabledCheckbox!: HTMLInputElement;
+  private scheduleVariableSelect!: HTMLSelectElement;
+  private scheduleTextarea!: HTMLTextAreaElement;
+  private scheduleValidation!: HTMLElement;
+
   // Noise
   private noiseEnabledCheckbox!: HTMLInputElement;
+  private noiseModelSelect!: HTMLSelectElement;
   private inputNoiseSigma!: HTMLInputElement;
+  private inputNoiseKappa!: HTMLInputElement;
+  private noiseBirthRadiusCheckbox!: HTMLInputElement;
+  private inputNoiseBirthRadiusSigma!: HTMLInputElement;
+  private noiseAmplitudeCheckbox!: HTMLInputElement;
+  private inputNoiseAmplitudeSigma!: HTMLInputElement;
+  private noiseTimingCheckbox!: HTMLInputElement;
+  private inputNoiseTimingSigma!: HTMLInputElement;
   private inputNoiseSeed!: HTMLInputElement;
 
   // Render
   private showRingCheckbox!: HTMLInputElement;
   private showMetricsCheckbox!: HTMLInputElement;
   private showFieldPlotCheckbox!: HTMLInputElement;
+  private showDivergencePlotCheckbox!: HTMLInputElement;
   private inputPointRadius!: HTMLInputElement;
   private scaleByDistanceCheckbox!: HTMLInputElement;
+  private showParastichiesCheckbox!: HTMLInputElement;
+  private inputTilt!: HTMLInputElement;
+  private voronoiSelect!: HTMLSelectElement;
   private updateFieldPlotBtn!: HTMLButtonElement;
 
+  // Sweep
+  private sweepParamSelect!: HTMLSelectElement;
+  private inputSweepFrom!: HTMLInputElement;
+  private inputSweepTo!: HTMLInputElement;
+  private inputSweepSteps!: HTMLInputElement;
+  private inputSweepLate!: HTMLInputElement;
+  private sweepModeSelect!: HTMLSelectElement;
+  private runSweepBtn!: HTMLButtonElement;
+  private stopSweepBtn!: HTMLButtonElement;
+  private exportSweepBtn!: HTMLButtonElement;
+  private sweepProgress!: HTMLElement;
+
+  // Images and recording
+  private inputImageWidth!: HTMLInputElement;
+  private inputImageHeight!: HTMLInputElement;
+  private imageBackgroundSelect!: HTMLSelectElement;
+  private inputRecordEvery!: HTMLInputElement;
+  private recordBtn!: HTMLButtonElement;
+  private stopRecordBtn!: HTMLButtonElement;
+  private saveRecordingBtn!: HTMLButtonElement;
+  private recordingStatus!: HTMLElement;
+
+  // Interventions (logged from canvas clicks; not editable in the sidebar)
+  private interventions: Intervention[] = [];
+  private interventionLog!: HTMLElement;
+  private clearInterventionsBtn!: HTMLButtonElement;
+
+  // Timeline (under the canvas)
+  private timelineSlider!: HTMLInputElement;
+  private timelineLabel!: HTMLElement;
+  private timelineStartBtn!: HTMLButtonElement;
+  private timelineBackBtn!: HTMLButtonElement;
+  private timelinePlayBtn!: HTMLButtonElement;
+  private timelineStopBtn!: HTMLButtonElement;
+  private timelineLiveBtn!: HTMLButtonElement;
+  private timelineSpeedSelect!: HTMLSelectElement;
+
   // Field plot canvas
   public fieldPlotCanvas!: HTMLCanvasElement;
   public fieldPlotCtx!: CanvasRenderingContext2D;
 
+  // Sweep plot canvas
+  public sweepPlotCanvas!: HTMLCanvasElement;
+  public sweepPlotCtx!: CanvasRenderingContext2D;
+
+  // Divergence series canvas
+  public divergencePlotCanvas!: HTMLCanvasElement;
+  public divergencePlotCtx!: CanvasRenderingContext2D;
+  private exportDivergenceBtn!: HTMLButtonElement;
+
   constructor(callbacks: UICallbacks) {
     this.callbacks = callbacks;
     this.currentConfig = defaultConfig();
@@ -115,6 +271,7 @@ export class UI {
 
   init(): SimConfig {
     this.createSidebar();
+    this.createTimeline();
     this.bindEvents();
 
     // Check for URL hash config
@@ -160,6 +317,15 @@ export class UI {
 
       <div class="ui-section">
         <div class="ui-section-title">Simulation</div>
+        <div class="ui-row">
+          <label>Geometry</label>
+          <select id="geometry-select" class="ui-select">
+            <option value="disk">Disk</option>
+            <option value="cylinder">Cylinder</option>
+            <option value="dome">Dome</option>
+          </select>
+        </div>
+        <div id="geometry-params"></div>
         <div class="ui-row">
           <label>R</label>
           <input type="number" id="input-R" step="0.1" min="0.1">
@@ -172,6 +338,36 @@ export class UI {
           <label>dt</label>
           <input type="number" id="input-dt" step="0.1" min="0.1">
         </div>
+        <div class="ui-row">
+          <label>Drift law</label>
+          <select id="drift-law-select" class="ui-select">
+            <option value="linear">Linear (v)</option>
+            <option value="exponential">Exponential (G)</option>
+            <option value="custom">Custom r(t)</option>
+          </select>
+        </div>
+        <div id="drift-params"></div>
+        <div class="ui-row">
+          <label>Organ size</label>
+          <select id="size-law-select" class="ui-select">
+            <option value="none">Points</option>
+            <option value="linear">Linear s0 + g·t</option>
+            <option value="exponential">Exponential s0·exp(g·t)</option>
+            <option value="proportional">Proportional to r</option>
+          </select>
+        </div>
+        <div id="size-params"></div>
+        <div class="ui-row">
+          <label>Initiation</label>
+          <select id="initiation-mode-select" class="ui-select">
+            <option value="argmin">Every step</option>
+            <option value="threshold">Threshold</option>
+          </select>
+        </div>
+        <div class="ui-row">
+          <label>Threshold</label>
+          <input type="number" id="input-threshold" step="0.01" min="0">
+        </div>
         <div class="ui-row">
           <label>maxR</label>
           <input type="number" id="input-maxR" step="0.1" min="0.1">
@@ -180,9 +376,24 @@ export class UI {
           <label>angleSamples</label>
           <input type="number" id="input-angleSamples" step="1" min="36">
         </div>
+        <div class="ui-row">
+          <label>Placement</label>
+          <select id="placement-solver-select" class="ui-select">
+            <option value="sampled">Sampled</option>
+            <option value="continuous">Continuous (Brent)</option>
+          </select>
+        </div>
+        <div class="ui-row">
+          <label>Grid</label>
+          <input type="number" id="input-placement-grid" step="1" min="8">
+        </div>
+        <div class="ui-row">
+          <label>Tolerance (rad)</label>
+          <input type="number" id="input-placement-tolerance" step="any" min="0">
+        </div>
         <div class="ui-row">
           <label>totalPrimordia</label>
-          <input type="number" id="input-totalPrimordia" step="100" min="2">
+          <input type="number" id="input-totalPrimordia" step="100" min="2" max="${MAX_TOTAL_PRIMORDIA}">
         </div>
         <div class="ui-row">
           <label>batchSize</label>
@@ -190,6 +401,25 @@ export class UI {
         </div>
       </div>
 
+      <div class="ui-section">
+        <div class="ui-section-title">Field evaluation</div>
+        <div class="ui-row">
+          <label>Mode</label>
+          <select id="field-eval-mode-select" class="ui-select">
+            <option value="exact">Exact</option>
+            <option value="cutoff">Cutoff + bins</option>
+          </select>
+        </div>
+        <div class="ui-row">
+          <label>Tolerance</label>
+          <input type="number" id="input-field-eval-tolerance" step="any" min="0">
+        </div>
+        <div class="ui-row checkbox-row">
+          <input type="checkbox" id="compare-exact">
+          <label for="compare-exact">Compare with exact</label>
+        </div>
+      </div>
+
       <div class="ui-section">
         <div class="ui-section-title">Kernel</div>
         <div class="ui-row">
@@ -199,26 +429,88 @@ export class UI {
             <option value="gaussian">Gaussian</option>
             <option value="softPower">Soft Power</option>
             <option value="hardCoreExp">Hard-Core Exp</option>
+            <option value="ellipticalExp">Elliptical Exp</option>
             <option value="custom">Custom</option>
           </select>
         </div>
         <div id="kernel-params"></div>
       </div>
 
+      <div class="ui-section">
+        <div class="ui-section-title">Schedule</div>
+        <div class="ui-row checkbox-row">
+          <input type="checkbox" id="schedule-enabled">
+          <label for="schedule-enabled">Enable schedule</label>
+        </div>
+        <div class="ui-row">
+          <label>Keyframes by</label>
+          <select id="schedule-variable" class="ui-select">
+            <option value="index">Primordium index</option>
+            <option value="time">Time</option>
+          </select>
+        </div>
+        <textarea id="schedule-text" class="custom-expr-input" placeholder="e.g., lambda: 0=0.45, 1200=0.12"></textarea>
+        <div id="schedule-validation" class="expr-validation"></div>
+        <div class="expr-help">One per line — keyframes: lambda: 0=0.45, 1200=0.12<br>Expression: A = 1 + 0.001 * n (variables n, t)<br>Parameters: R, v, G, A, lambda, sigma, p, eps, d0, aspect</div>
+      </div>
+
       <div class="ui-section">
         <div class="ui-section-title">Noise</div>
         <div class="ui-row checkbox-row">
           <input type="checkbox" id="noise-enabled">
-          <label for="noise-enabled">Enable noise</label>
+          <label for="noise-enabled">Angular noise</label>
+        </div>
+        <div class="ui-row">
+          <label>Model</label>
+          <select id="noise-model-select" class="ui-select">
+            <option value="gaussian">Gaussian</option>
+            <option value="vonMises">von Mises</option>
+          </select>
         </div>
         <div class="ui-row">
           <label>σ (deg)</label>
           <input type="number" id="input-noise-sigma" step="0.5" min="0">
         </div>
+        <div class="ui-row">
+          <label>κ</label>
+          <input type="number" id="input-noise-kappa" step="100" min="0">
+        </div>
+        <div class="ui-row checkbox-row">
+          <input type="checkbox" id="noise-birth-radius">
+          <label for="noise-birth-radius">Birth radius</label>
+        </div>
+        <div class="ui-row">
+          <label>σ_R</label>
+          <input type="number" id="input-noise-birth-radius-sigma" step="0.005" min="0">
+        </div>
+        <div class="ui-row checkbox-row">
+          <input type="checkbox" id="noise-amplitude">
+          <label for="noise-amplitude">Kernel amplitude</label>
+        </div>
+        <div class="ui-row">
+          <label>σ_A (log)</label>
+          <input type="number" id="input-noise-amplitude-sigma" step="0.05" min="0">
+        </div>
+        <div class="ui-row checkbox-row">
+          <input type="checkbox" id="noise-timing">
+          <label for="noise-timing">Initiation timing</label>
+        </div>
+        <div class="ui-row">
+          <label>σ_T (log)</label>
+          <input type="number" id="input-noise-timing-sigma" step="0.05" min="0">
+        </div>
         <div class="ui-row">
           <label>Seed</label>
           <input type="number" id="input-noise-seed" step="1">
         </div>
+        <div class="expr-help">Each source draws from its own stream derived from the seed, so enabling one leaves the others' draws unchanged. Timing noise jitters the threshold of threshold initiation.</div>
+      </div>
+
+      <div class="ui-section">
+        <div class="ui-section-title">Interventions</div>
+        <div class="expr-help">Click a primordium to ablate it; Shift-click the ring to insert one. Interventions replay on reset and are saved with the config.</div>
+        <div id="intervention-log"></div>
+        <button id="btn-clear-interventions" class="btn btn-small">Clear &amp; Reset</button>
       </div>
 
       <div class="ui-section">
@@ -235,6 +527,10 @@ export class UI {
           <input type="checkbox" id="show-field-plot">
           <label for="show-field-plot">Field plot</label>
         </div>
+        <div class="ui-row checkbox-row">
+          <input type="checkbox" id="show-divergence-plot">
+          <label for="show-divergence-plot">Divergence plot</label>
+        </div>
         <div class="ui-row">
           <label>Point radius</label>
           <input type="number" id="input-point-radius" step="0.5" min="0.5">
@@ -243,20 +539,124 @@ export class UI {
           <input type="checkbox" id="scale-by-distance">
           <label for="scale-by-distance">Natural growth</label>
         </div>
+        <div class="ui-row checkbox-row">
+          <input type="checkbox" id="show-parastichies">
+          <label for="show-parastichies">Parastichies</label>
+        </div>
+        <div class="ui-row">
+          <label>Dome tilt (°)</label>
+          <input type="number" id="input-tilt" step="5" min="0" max="90">
+        </div>
+        <div class="ui-row">
+          <label>Voronoi cells</label>
+          <select id="voronoi-select" class="ui-select">
+            <option value="none">Off</option>
+            <option value="sides">By sides</option>
+            <option value="area">By area</option>
+            <option value="packing">By packing</option>
+          </select>
+        </div>
         <button id="btn-update-field-plot" class="btn btn-small">Update Field Plot</button>
       </div>
 
+      <div class="ui-section">
+        <div class="ui-section-title">Parameter Sweep</div>
+        <div class="ui-row">
+          <label>Parameter</label>
+          <select id="sweep-param-select" class="ui-select"></select>
+        </div>
+        <div class="ui-row">
+          <label>From</label>
+          <input type="number" id="input-sweep-from" step="any" value="0.05">
+        </div>
+        <div class="ui-row">
+          <label>To</label>
+          <input type="number" id="input-sweep-to" step="any" value="0.5">
+        </div>
+        <div class="ui-row">
+          <label>Steps</label>
+          <input type="number" id="input-sweep-steps" step="1" min="2" value="20">
+        </div>
+        <div class="ui-row">
+          <label>Last N</label>
+          <input type="number" id="input-sweep-late" step="10" min="1" value="100">
+        </div>
+        <div class="ui-row">
+          <label>Plot</label>
+          <select id="sweep-mode-select" class="ui-select">
+            <option value="mean">Mean ± σ</option>
+            <option value="scatter">Late-run scatter</option>
+          </select>
+        </div>
+        <div class="ui-row buttons">
+          <button id="btn-run-sweep" class="btn btn-small">Run Sweep</button>
+          <button id="btn-stop-sweep" class="btn btn-small" disabled>Stop</button>
+          <button id="btn-export-sweep" class="btn btn-small" disabled>Export CSV</button>
+        </div>
+        <div id="sweep-progress" class="expr-help">Each value runs a fresh simulation of the current settings.</div>
+        <canvas id="sweep-plot-canvas"></canvas>
+      </div>
+
       <div class="ui-section">
         <div class="ui-section-title">Import/Export</div>
         <div class="ui-row buttons">
           <button id="btn-export" class="btn btn-small">Export</button>
           <button id="btn-import" class="btn btn-small">Import</button>
+          <button id="btn-export-svg" class="btn btn-small">Export SVG</button>
+        </div>
+        <div class="ui-row buttons">
+          <select id="data-format-select" class="ui-select" title="Data format">
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+          <button id="btn-export-data" class="btn btn-small">Export Data</button>
         </div>
         <input type="file" id="import-file" accept=".json" style="display: none">
+        <div class="ui-row buttons">
+          <button id="btn-save-checkpoint" class="btn btn-small">Save Checkpoint</button>
+          <button id="btn-load-checkpoint" class="btn btn-small">Load Checkpoint</button>
+        </div>
+        <input type="file" id="checkpoint-file" accept=".json" style="display: none">
+        <div class="expr-help">Export Data saves every primordium shown with the config, seed and a SHA-256 of the rows: equal hashes mean the same run. A checkpoint holds the whole run; loading one continues it exactly where it was saved.</div>
+      </div>
+
+      <div class="ui-section">
+        <div class="ui-section-title">Images</div>
+        <div class="ui-row">
+          <label>Width (px)</label>
+          <input type="number" id="input-image-width" value="3000" step="100" min="16" max="16384">
+        </div>
+        <div class="ui-row">
+          <label>Height (px)</label>
+          <input type="number" id="input-image-height" value="3000" step="100" min="16" max="16384">
+        </div>
+        <div class="ui-row">
+          <label>Background</label>
+          <select id="image-background-select" class="ui-select">
+            <option value="parchment">Parchment</option>
+            <option value="transparent">Transparent</option>
+          </select>
+        </div>
+        <div class="ui-row buttons">
+          <button id="btn-save-png" class="btn btn-small">Save PNG</button>
+        </div>
+        <div class="ui-row">
+          <label>Record every (steps)</label>
+          <input type="number" id="input-record-every" value="10" step="1" min="1">
+        </div>
+        <div class="ui-row buttons">
+          <button id="btn-record" class="btn btn-small">Record</button>
+          <button id="btn-stop-record" class="btn btn-small" disabled>Stop</button>
+          <button id="btn-save-recording" class="btn btn-small" disabled>Save Frames</button>
+        </div>
+        <div id="recording-status" class="expr-help">Images show the canvas as drawn, scaled to the size given. Recording captures a frame every N steps of the run (Apply or Reset starts it over) and saves them as a zip of numbered PNGs.</div>
       </div>
 
       <div class="ui-section field-plot-section">
         <canvas id="field-plot-canvas"></canvas>
+        <canvas id="divergence-plot-canvas"></canvas>
+        <div class="expr-help">Divergence of each primordium with its rolling mean ± σ. Scroll to zoom the index axis; double-click to show the whole run.</div>
+        <button id="btn-export-divergence" class="btn btn-small">Export Divergence CSV</button>
       </div>
 
       <div id="validation-messages"></div>
@@ -284,31 +684,93 @@ export class UI {
 
     this.presetSelect = document.getElementById('preset-select') as HTMLSelectElement;
 
+    this.geometrySelect = document.getElementById('geometry-select') as HTMLSelectElement;
+    this.geometryParamsDiv = document.getElementById('geometry-params') as HTMLElement;
     this.inputR = document.getElementById('input-R') as HTMLInputElement;
     this.inputV = document.getElementById('input-v') as HTMLInputElement;
     this.inputDt = document.getElementById('input-dt') as HTMLInputElement;
+    this.driftLawSelect = document.getElementById('drift-law-select') as HTMLSelectElement;
+    this.driftParamsDiv = document.getElementById('drift-params') as HTMLElement;
+    this.sizeLawSelect = document.getElementById('size-law-select') as HTMLSelectElement;
+    this.sizeParamsDiv = document.getElementById('size-params') as HTMLElement;
+    this.initiationModeSelect = document.getElementById('initiation-mode-select') as HTMLSelectElement;
+    this.inputThreshold = document.getElementById('input-threshold') as HTMLInputElement;
     this.inputMaxR = document.getElementById('input-maxR') as HTMLInputElement;
     this.inputAngleSamples = document.getElementById('input-angleSamples') as HTMLInputElement;
+    this.placementSolverSelect = document.getElementById('placement-solver-select') as HTMLSelectElement;
+    this.inputPlacementGrid = document.getElementById('input-placement-grid') as HTMLInputElement;
+    this.inputPlacementTolerance = document.getElementById('input-placement-tolerance') as HTMLInputElement;
     this.inputTotalPrimordia = document.getElementById('input-totalPrimordia') as HTMLInputElement;
     this.inputBatchSize = document.getElementById('input-batchSize') as HTMLInputElement;
 
+    this.fieldEvalModeSelect = document.getElementById('field-eval-mode-select') as HTMLSelectElement;
+    this.inputFieldEvalTolerance = document.getElementById('input-field-eval-tolerance') as HTMLInputElement;
+    this.compareExactCheckbox = document.getElementById('compare-exact') as HTMLInputElement;
+
     this.kernelTypeSelect = document.getElementById('kernel-type-select') as HTMLSelectElement;
     this.kernelParamsDiv = document.getElementById('kernel-params') as HTMLElement;
 
+    this.scheduleEnabledCheckbox = document.getElementById('schedule-enabled') as HTMLInputElement;
+    this.scheduleVariableSelect = document.getElementById('schedule-variable') as HTMLSelectElement;
+    this.scheduleTextarea = document.getElementById('schedule-text') as HTMLTextAreaElement;
+    this.scheduleValidation = document.getElementById('schedule-validation') as HTMLElement;
+
     this.noiseEnabledCheckbox = document.getElementById('noise-enabled') as HTMLInputElement;
+    this.noiseModelSelect = document.getElementById('noise-model-select') as HTMLSelectElement;
     this.inputNoiseSigma = document.getElementById('input-noise-sigma') as HTMLInputElement;
+    this.inputNoiseKappa = document.getElementById('input-noise-kappa') as HTMLInputElement;
+    this.noiseBirthRadiusCheckbox = document.getElementById('noise-birth-radius') as HTMLInputElement;
+    this.inputNoiseBirthRadiusSigma = document.getElementById('input-noise-birth-radius-sigma') as HTMLInputElement;
+    this.noiseAmplitudeCheckbox = document.getElementById('noise-amplitude') as HTMLInputElement;
+    this.inputNoiseAmplitudeSigma = document.getElementById('input-noise-amplitude-sigma') as HTMLInputElement;
+    this.noiseTimingCheckbox = document.getElementById('noise-timing') as HTMLInputElement;
+    this.inputNoiseTimingSigma = document.getElementById('input-noise-timing-sigma') as HTMLInputElement;
     this.inputNoiseSeed = document.getElementById('input-noise-seed') as HTMLInputElement;
 
     this.showRingCheckbox = document.getElementById('show-ring') as HTMLInputElement;
     this.showMetricsCheckbox = document.getElementById('show-metrics') as HTMLInputElement;
     this.showFieldPlotCheckbox = document.getElementById('show-field-plot') as HTMLInputElement;
+    this.showDivergencePlotCheckbox = document.getElementById('show-divergence-plot') as HTMLInputElement;
     this.inputPointRadius = document.getElementById('input-point-radius') as HTMLInputElement;
     this.scaleByDistanceCheckbox = document.getElementById('scale-by-distance') as HTMLInputElement;
+    this.showParastichiesCheckbox = document.getElementById('show-parastichies') as HTMLInputElement;
+    this.inputTilt = document.getElementById('input-tilt') as HTMLInputElement;
+    this.voronoiSelect = document.getElementById('voronoi-select') as HTMLSelectElement;
     this.updateFieldPlotBtn = document.getElementById('btn-update-field-plot') as HTMLButtonElement;
 
+    this.sweepParamSelect = document.getElementById('sweep-param-select') as HTMLSelectElement;
+    this.inputSweepFrom = document.getElementById('input-sweep-from') as HTMLInputElement;
+    this.inputSweepTo = document.getElementById('input-sweep-to') as HTMLInputElement;
+    this.inputSweepSteps = document.getElementById('input-sweep-steps') as HTMLInputElement;
+    this.inputSweepLate = document.getElementById('input-sweep-late') as HTMLInputElement;
+    this.sweepModeSelect = document.getElementById('sweep-mode-select') as HTMLSelectElement;
+    this.runSweepBtn = document.getElementById('btn-run-sweep') as HTMLButtonElement;
+    this.stopSweepBtn = document.getElementById('btn-stop-sweep') as HTMLButtonElement;
+    this.exportSweepBtn = document.getElementById('btn-export-sweep') as HTMLButtonElement;
+    this.sweepProgress = document.getElementById('sweep-progress') as HTMLElement;
+
+    this.inputImageWidth = document.getElementById('input-image-width') as HTMLInputElement;
+    this.inputImageHeight = document.getElementById('input-image-height') as HTMLInputElement;
+    this.imageBackgroundSelect = document.getElementById('image-background-select') as HTMLSelectElement;
+    this.inputRecordEvery = document.getElementById('input-record-every') as HTMLInputElement;
+    this.recordBtn = document.getElementById('btn-record') as HTMLButtonElement;
+    this.stopRecordBtn = document.getElementById('btn-stop-record') as HTMLButtonElement;
+    this.saveRecordingBtn = document.getElementById('btn-save-recording') as HTMLButtonElement;
+    this.recordingStatus = document.getElementById('recording-status') as HTMLElement;
+
+    this.interventionLog = document.getElementById('intervention-log') as HTMLElement;
+    this.clearInterventionsBtn = document.getElementById('btn-clear-interventions') as HTMLButtonElement;
+
     this.fieldPlotCanvas = document.getElementById('field-plot-canvas') as HTMLCanvasElement;
     this.fieldPlotCtx = this.fieldPlotCanvas.getContext('2d')!;
 
+    this.sweepPlotCanvas = document.getElementById('sweep-plot-canvas') as HTMLCanvasElement;
+    this.sweepPlotCtx = this.sweepPlotCanvas.getContext('2d')!;
+
+    this.divergencePlotCanvas = document.getElementById('divergence-plot-canvas') as HTMLCanvasElement;
+    this.divergencePlotCtx = this.divergencePlotCanvas.getContext('2d')!;
+    this.exportDivergenceBtn = document.getElementById('btn-export-divergence') as HTMLButtonElement;
+
     this.validationDiv = document.getElementById('validation-messages') as HTMLElement;
 
     // Populate presets
@@ -319,8 +781,55 @@ export class UI {
       this.presetSelect.appendChild(opt);
     }
 
-    // Initial kernel params
+    // Populate sweep parameters
+    for (const param of SCHEDULE_PARAMS) {
+      const opt = document.createElement('option');
+      opt.value = param;
+      opt.textContent = param;
+      this.sweepParamSelect.appendChild(opt);
+    }
+    this.sweepParamSelect.value = 'lambda';
+
+    // Initial kernel, drift and size params
     this.updateKernelParamsUI();
+    this.updateGeometryParamsUI();
+    this.updateDriftParamsUI();
+    this.updateSizeParamsUI();
+  }
+
+  // =============================================================================
+  // Timeline Creation
+  // =============================================================================
+
+  private createTimeline(): void {
+    const timeline = document.getElementById('timeline')!;
+    timeline.innerHTML = `
+      <div class="timeline-buttons">
+        <button id="btn-timeline-start" class="btn btn-small" title="Back to step 0">⏮</button>
+        <button id="btn-timeline-back" class="btn btn-small" title="Play backwards">◀</button>
+        <button id="btn-timeline-stop" class="btn btn-small" title="Stop playback">⏸</button>
+        <button id="btn-timeline-play" class="btn btn-small" title="Play forwards">▶</button>
+      </div>
+      <input type="range" id="timeline-slider" min="0" max="0" step="1" value="0">
+      <span id="timeline-label">step 0</span>
+      <select id="timeline-speed" class="ui-select" title="Playback speed">
+        <option value="1">1 step/frame</option>
+        <option value="2">2 steps/frame</option>
+        <option value="5" selected>5 steps/frame</option>
+        <option value="20">20 steps/frame</option>
+        <option value="100">100 steps/frame</option>
+      </select>
+      <button id="btn-timeline-live" class="btn btn-small" title="Back to the current step">Live</button>
+    `;
+
+    this.timelineSlider = document.getElementById('timeline-slider') as HTMLInputElement;
+    this.timelineLabel = document.getElementById('timeline-label') as HTMLElement;
+    this.timelineStartBtn = document.getElementById('btn-timeline-start') as HTMLButtonElement;
+    this.timelineBackBtn = document.getElementById('btn-timeline-back') as HTMLButtonElement;
+    this.timelinePlayBtn = document.getElementById('btn-timeline-play') as HTMLButtonElement;
+    this.timelineStopBtn = document.getElementById('btn-timeline-stop') as HTMLButtonElement;
+    this.timelineLiveBtn = document.getElementById('btn-timeline-live') as HTMLButtonElement;
+    this.timelineSpeedSelect = document.getElementById('timeline-speed') as HTMLSelectElement;
   }
 
   // =============================================================================
@@ -336,15 +845,65 @@ export class UI {
 
     this.presetSelect.addEventListener('change', () => this.handlePresetChange());
     this.kernelTypeSelect.addEventListener('change', () => this.updateKernelParamsUI());
+    this.geometrySelect.addEventListener('change', () => this.updateGeometryParamsUI());
+    this.driftLawSelect.addEventListener('change', () => this.updateDriftParamsUI());
+    this.sizeLawSelect.addEventListener('change', () => this.updateSizeParamsUI());
+    this.scheduleTextarea.addEventListener('input', () => this.validateScheduleText());
 
     this.updateFieldPlotBtn.addEventListener('click', () => this.callbacks.onUpdateFieldPlot());
 
+    // Divergence series: wheel zooms the index axis about the cursor
+    this.divergencePlotCanvas.addEventListener('wheel', (e) => {
+      e.preventDefault();
+      const rect = this.divergencePlotCanvas.getBoundingClientRect();
+      const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+      this.callbacks.onDivergenceZoom(e.deltaY < 0 ? 0.8 : 1.25, fraction);
+    }, { passive: false });
+    this.divergencePlotCanvas.addEventListener('dblclick', () => this.callbacks.onDivergenceZoomReset());
+    this.exportDivergenceBtn.addEventListener('click', () => this.callbacks.onExportDivergence());
+
+    // Sweep
+    this.runSweepBtn.addEventListener('click', () => this.handleRunSweep());
+    this.stopSweepBtn.addEventListener('click', () => this.callbacks.onStopSweep());
+    this.exportSweepBtn.addEventListener('click', () => this.callbacks.onExportSweep());
+    this.clearInterventionsBtn.addEventListener('click', () => {
+      this.setInterventions([]);
+      this.callbacks.onClearInterventions();
+    });
+    this.sweepModeSelect.addEventListener('change', () => this.callbacks.onSweepModeChange());
+
+    // Timeline
+    this.timelineSlider.addEventListener('input', () => {
+      this.callbacks.onTimelineScrub(parseInt(this.timelineSlider.value, 10));
+    });
+    this.timelineStartBtn.addEventListener('click', () => this.callbacks.onTimelineScrub(0));
+    this.timelineBackBtn.addEventListener('click', () => this.callbacks.onTimelinePlay(-1));
+    this.timelinePlayBtn.addEventListener('click', () => this.callbacks.onTimelinePlay(1));
+    this.timelineStopBtn.addEventListener('click', () => this.callbacks.onTimelineStop());
+    this.timelineLiveBtn.addEventListener('click', () => this.callbacks.onTimelineLive());
+
     // Import/Export
     document.getElementById('btn-export')!.addEventListener('click', () => this.handleExport());
+    document.getElementById('btn-export-svg')!.addEventListener('click', () => this.callbacks.onExportSvg());
+    document.getElementById('btn-export-data')!.addEventListener('click', () => {
+      const format = (document.getElementById('data-format-select') as HTMLSelectElement).value as DataFormat;
+      this.callbacks.onExportData(format);
+    });
+
+    // Images and recording
+    document.getElementById('btn-save-png')!.addEventListener('click', () => this.handleSavePng());
+    this.recordBtn.addEventListener('click', () => this.handleStartRecording());
+    this.stopRecordBtn.addEventListener('click', () => this.callbacks.onStopRecording());
+    this.saveRecordingBtn.addEventListener('click', () => this.callbacks.onSaveRecording());
     document.getElementById('btn-import')!.addEventListener('click', () => {
       (document.getElementById('import-file') as HTMLInputElement).click();
     });
     document.getElementById('import-file')!.addEventListener('change', (e) => this.handleImport(e));
+    document.getElementById('btn-save-checkpoint')!.addEventListener('click', () => this.callbacks.onSaveCheckpoint());
+    document.getElementById('btn-load-checkpoint')!.addEventListener('click', () => {
+      (document.getElementById('checkpoint-file') as HTMLInputElement).click();
+    });
+    document.getElementById('checkpoint-file')!.addEventListener('change', (e) => this.handleLoadCheckpoint(e));
   }
 
   // =============================================================================
@@ -382,9 +941,16 @@ export class UI {
           <div class="ui-row"><label>d₀</label><input type="number" id="kernel-d0" step="0.01" value="0.05"></div>
         `;
         break;
+      case 'ellipticalExp':
+        html = `
+          <div class="ui-row"><label>A</label><input type="number" id="kernel-A" step="0.1" value="1.0"></div>
+          <div class="ui-row"><label>λ (tangential)</label><input type="number" id="kernel-lambda" step="0.01" value="0.18"></div>
+          <div class="ui-row"><label>Aspect (radial/tangential)</label><input type="number" id="kernel-aspect" step="0.1" min="0" value="1.5"></div>
+        `;
+        break;
       case 'custom':
         html = `
-          <div class="ui-row"><label>Expression f(d)</label></div>
+          <div class="ui-row"><label>Expression K</label></div>
           <textarea id="custom-expr" class="custom-expr-input" placeholder="e.g., A * exp(-d / lambda)"></textarea>
           <div id="custom-expr-validation" class="expr-validation"></div>
           <div class="ui-row"><label>A</label><input type="number" id="kernel-A" step="0.1" value="1.0"></div>
@@ -393,7 +959,7 @@ export class UI {
           <div class="ui-row"><label>p</label><input type="number" id="kernel-p" step="0.1" value="2.0"></div>
           <div class="ui-row"><label>ε</label><input type="number" id="kernel-eps" step="0.001" value="0.01"></div>
           <div class="ui-row"><label>d₀</label><input type="number" id="kernel-d0" step="0.01" value="0.05"></div>
-          <div class="expr-help">Supported: +, -, *, /, ^, sqrt, exp, log, sin, cos, abs, min, max<br>Variables: d, A, lambda, sigma, p, eps, d0</div>
+          <div class="expr-help">Supported: +, -, *, /, ^, sqrt, exp, log, sin, cos, abs, min, max<br>Variables: d, A, lambda, sigma, p, eps, d0<br>Direction: dx (along ring), dy (outward), dtheta, dr</div>
         `;
         break;
     }
@@ -407,6 +973,7 @@ export class UI {
     this.inputKernelP = document.getElementById('kernel-p') as HTMLInputElement;
     this.inputKernelEps = document.getElementById('kernel-eps') as HTMLInputElement;
     this.inputKernelD0 = document.getElementById('kernel-d0') as HTMLInputElement;
+    this.inputKernelAspect = document.getElementById('kernel-aspect') as HTMLInputElement;
     this.customExprTextarea = document.getElementById('custom-expr') as HTMLTextAreaElement;
     this.customExprValidation = document.getElementById('custom-expr-validation') as HTMLElement;
 
@@ -429,7 +996,7 @@ export class UI {
       this.customExprValidation.className = 'expr-validation';
       return;
     }
-    const error = validateExpression(expr);
+    const error = validateExpression(expr, CUSTOM_KERNEL_VARIABLES);
     if (error) {
       this.customExprValidation.textContent = `Error: ${error}`;
       this.customExprValidation.className = 'expr-validation error';
@@ -439,32 +1006,297 @@ export class UI {
     }
   }
 
+  // =============================================================================
+  // Geometry Params UI
+  // =============================================================================
+
+  private updateGeometryParamsUI(): void {
+    const type = this.geometrySelect.value as GeometryConfig['type'];
+    let html = '';
+
+    switch (type) {
+      case 'disk':
+      case 'cylinder':
+        break;
+      case 'dome':
+        html = `
+          <div class="ui-row">
+            <label>Shape</label>
+            <select id="dome-shape-select" class="ui-select">
+              <option value="paraboloid">Paraboloid</option>
+              <option value="sphere">Sphere</option>
+            </select>
+          </div>
+          <div class="ui-row"><label>Curvature</label><input type="number" id="dome-curvature" step="0.05" min="0.01" value="0.5"></div>
+          <div class="ui-row">
+            <label>Distance</label>
+            <select id="dome-metric-select" class="ui-select">
+              <option value="geodesic">Geodesic</option>
+              <option value="chordal">Chordal</option>
+            </select>
+          </div>
+        `;
+        break;
+    }
+
+    this.geometryParamsDiv.innerHTML = html;
+
+    // Get new references
+    this.domeShapeSelect = document.getElementById('dome-shape-select') as HTMLSelectElement;
+    this.inputDomeCurvature = document.getElementById('dome-curvature') as HTMLInputElement;
+    this.domeMetricSelect = document.getElementById('dome-metric-select') as HTMLSelectElement;
+
+    // Populate from current config if matching type
+    if (this.currentConfig.geometry.type === type) {
+      this.populateGeometryParamsFromConfig(this.currentConfig.geometry);
+    }
+  }
+
+  private populateGeometryParamsFromConfig(geometry: GeometryConfig): void {
+    switch (geometry.type) {
+      case 'disk':
+      case 'cylinder':
+        break;
+      case 'dome':
+        if (this.domeShapeSelect) this.domeShapeSelect.value = geometry.shape;
+        if (this.inputDomeCurvature) this.inputDomeCurvature.value = String(geometry.curvature);
+        if (this.domeMetricSelect) this.domeMetricSelect.value = geometry.metric;
+        break;
+    }
+  }
+
+  // =============================================================================
+  // Drift Params UI
+  // =============================================================================
+
+  private updateDriftParamsUI(): void {
+    const law = this.driftLawSelect.value as DriftConfig['law'];
+    let html = '';
+
+    switch (law) {
+      case 'linear':
+        break;
+      case 'exponential':
+        html = `
+          <div class="ui-row"><label>G</label><input type="number" id="drift-G" step="0.001" value="0.01"></div>
+        `;
+        break;
+      case 'custom':
+        html = `
+          <div class="ui-row"><label>Expression r(t)</label></div>
+          <textarea id="drift-expr" class="custom-expr-input" placeholder="e.g., R * exp(G * t)"></textarea>
+          <div id="drift-expr-validation" class="expr-validation"></div>
+          <div class="ui-row"><label>G</label><input type="number" id="drift-G" step="0.001" value="0.01"></div>
+          <div class="expr-help">Variables: t (age), R, v, G, dt</div>
+        `;
+        break;
+    }
+
+    this.driftParamsDiv.innerHTML = html;
+
+    // Get new references
+    this.inputDriftG = document.getElementById('drift-G') as HTMLInputElement;
+    this.driftExprTextarea = document.getElementById('drift-expr') as HTMLTextAreaElement;
+    this.driftExprValidation = document.getElementById('drift-expr-validation') as HTMLElement;
+
+    if (this.driftExprTextarea) {
+      this.driftExprTextarea.addEventListener('input', () => this.validateDriftExpr());
+    }
+
+    // Populate from current config if matching law
+    if (this.currentConfig.drift.law === law) {
+      this.populateDriftParamsFromConfig(this.currentConfig.drift);
+    }
+  }
+
+  private validateDriftExpr(): void {
+    if (!this.driftExprTextarea || !this.driftExprValidation) return;
+    const expr = this.driftExprTextarea.value.trim();
+    if (!expr) {
+      this.driftExprValidation.textContent = '';
+      this.driftExprValidation.className = 'expr-validation';
+      return;
+    }
+    const error = validateExpression(expr, DRIFT_VARIABLES);
+    if (error) {
+      this.driftExprValidation.textContent = `Error: ${error}`;
+      this.driftExprValidation.className = 'expr-validation error';
+    } else {
+      this.driftExprValidation.textContent = 'Valid ✓';
+      this.driftExprValidation.className = 'expr-validation valid';
+    }
+  }
+
+  private populateDriftParamsFromConfig(drift: DriftConfig): void {
+    switch (drift.law) {
+      case 'linear':
+        break;
+      case 'exponential':
+        if (this.inputDriftG) this.inputDriftG.value = String(drift.G);
+        break;
+      case 'custom':
+        if (this.driftExprTextarea) this.driftExprTextarea.value = drift.expr;
+        if (this.inputDriftG) this.inputDriftG.value = String(drift.G);
+        this.validateDriftExpr();
+        break;
+    }
+  }
+
+  // =============================================================================
+  // Size Params UI
+  // =============================================================================
+
+  private updateSizeParamsUI(): void {
+    const law = this.sizeLawSelect.value as SizeConfig['law'];
+    let html = '';
+
+    switch (law) {
+      case 'none':
+        break;
+      case 'linear':
+      case 'exponential':
+        html = `
+          <div class="ui-row"><label>s0</label><input type="number" id="size-s0" step="0.01" min="0" value="0.05"></div>
+          <div class="ui-row"><label>g</label><input type="number" id="size-g" step="0.001" value="${law === 'linear' ? 0.001 : 0.01}"></div>
+        `;
+        break;
+      case 'proportional':
+        html = `
+          <div class="ui-row"><label>Ratio</label><input type="number" id="size-ratio" step="0.01" min="0" value="0.08"></div>
+        `;
+        break;
+    }
+    if (law !== 'none') {
+      html += `
+        <div class="ui-row checkbox-row">
+          <input type="checkbox" id="size-edge-to-edge">
+          <label for="size-edge-to-edge">Edge-to-edge distance</label>
+        </div>
+      `;
+    }
+
+    this.sizeParamsDiv.innerHTML = html;
+
+    // Get new references
+    this.inputSizeS0 = document.getElementById('size-s0') as HTMLInputElement;
+    this.inputSizeG = document.getElementById('size-g') as HTMLInputElement;
+    this.inputSizeRatio = document.getElementById('size-ratio') as HTMLInputElement;
+    this.edgeToEdgeCheckbox = document.getElementById('size-edge-to-edge') as HTMLInputElement;
+
+    // Populate from current config if matching law
+    if (this.currentConfig.size.law === law) {
+      this.populateSizeParamsFromConfig(this.currentConfig.size);
+    }
+  }
+
+  private populateSizeParamsFromConfig(size: SizeConfig): void {
+    switch (size.law) {
+      case 'none':
+        return;
+      case 'linear':
+      case 'exponential':
+        if (this.inputSizeS0) this.inputSizeS0.value = String(size.s0);
+        if (this.inputSizeG) this.inputSizeG.value = String(size.g);
+        break;
+      case 'proportional':
+        if (this.inputSizeRatio) this.inputSizeRatio.value = String(size.ratio);
+        break;
+    }
+    if (this.edgeToEdgeCheckbox) this.edgeToEdgeCheckbox.checked = size.edgeToEdge;
+  }
+
+  // =============================================================================
+  // Schedule UI
+  // =============================================================================
+
+  /**
+   * Check the schedule text; returns the parse error (also shown inline), if any.
+   */
+  private validateScheduleText(): string | null {
+    const text = this.scheduleTextarea.value.trim();
+    if (!text) {
+      this.scheduleValidation.textContent = '';
+      this.scheduleValidation.className = 'expr-validation';
+      return null;
+    }
+    const { tracks, error } = parseScheduleText(text);
+    const exprError = tracks
+      .map((t) => t.type === 'expression' ? validateExpression(t.expr, SCHEDULE_VARIABLES) : null)
+      .find((e) => e !== null) ?? null;
+    const message = error ?? (exprError ? `Invalid expression: ${exprError}` : null);
+    if (message) {
+      this.scheduleValidation.textContent = `Error: ${message}`;
+      this.scheduleValidation.className = 'expr-validation error';
+    } else {
+      this.scheduleValidation.textContent = `Valid ✓ (${tracks.length} track${tracks.length === 1 ? '' : 's'})`;
+      this.scheduleValidation.className = 'expr-validation valid';
+    }
+    return message;
+  }
+
   // =============================================================================
   // Populate UI from Config
   // =============================================================================
 
   private populateUIFromConfig(cfg: SimConfig): void {
+    this.geometrySelect.value = cfg.geometry.type;
+    this.updateGeometryParamsUI();
+    this.populateGeometryParamsFromConfig(cfg.geometry);
     this.inputR.value = String(cfg.R);
     this.inputV.value = String(cfg.v);
     this.inputDt.value = String(cfg.dt);
+    this.driftLawSelect.value = cfg.drift.law;
+    this.updateDriftParamsUI();
+    this.populateDriftParamsFromConfig(cfg.drift);
+    this.sizeLawSelect.value = cfg.size.law;
+    this.updateSizeParamsUI();
+    this.populateSizeParamsFromConfig(cfg.size);
+    this.initiationModeSelect.value = cfg.initiation.mode;
+    this.inputThreshold.value = String(cfg.initiation.mode === 'threshold' ? cfg.initiation.threshold : 0.5);
     this.inputMaxR.value = String(cfg.maxR);
     this.inputAngleSamples.value = String(cfg.angleSamples);
+    this.placementSolverSelect.value = cfg.placement.solver;
+    this.inputPlacementGrid.value = String(cfg.placement.solver === 'continuous' ? cfg.placement.gridSamples : 180);
+    this.inputPlacementTolerance.value = String(cfg.placement.solver === 'continuous' ? cfg.placement.tolerance : 1e-9);
     this.inputTotalPrimordia.value = String(cfg.totalPrimordia);
     this.inputBatchSize.value = String(cfg.batchSize);
 
+    this.fieldEvalModeSelect.value = cfg.fieldEval.mode;
+    this.inputFieldEvalTolerance.value = String(cfg.fieldEval.tolerance);
+    this.compareExactCheckbox.checked = cfg.fieldEval.compareExact;
+
     this.kernelTypeSelect.value = cfg.kernel.type;
     this.updateKernelParamsUI();
     this.populateKernelParamsFromConfig(cfg.kernel);
 
+    this.scheduleEnabledCheckbox.checked = cfg.schedule.enabled;
+    this.scheduleVariableSelect.value = cfg.schedule.variable;
+    this.scheduleTextarea.value = formatScheduleTracks(cfg.schedule.tracks);
+    this.validateScheduleText();
+
     this.noiseEnabledCheckbox.checked = cfg.noise.enabled;
+    this.noiseModelSelect.value = cfg.noise.model;
     this.inputNoiseSigma.value = String(cfg.noise.sigmaThetaDeg);
+    this.inputNoiseKappa.value = String(cfg.noise.kappa);
+    this.noiseBirthRadiusCheckbox.checked = cfg.noise.birthRadius.enabled;
+    this.inputNoiseBirthRadiusSigma.value = String(cfg.noise.birthRadius.sigma);
+    this.noiseAmplitudeCheckbox.checked = cfg.noise.amplitude.enabled;
+    this.inputNoiseAmplitudeSigma.value = String(cfg.noise.amplitude.sigma);
+    this.noiseTimingCheckbox.checked = cfg.noise.timing.enabled;
+    this.inputNoiseTimingSigma.value = String(cfg.noise.timing.sigma);
     this.inputNoiseSeed.value = String(cfg.noise.seed);
 
     this.showRingCheckbox.checked = cfg.render.showRing;
     this.showMetricsCheckbox.checked = cfg.render.showMetrics;
     this.showFieldPlotCheckbox.checked = cfg.render.showFieldPlot;
+    this.showDivergencePlotCheckbox.checked = cfg.render.showDivergencePlot;
     this.inputPointRadius.value = String(cfg.render.pointRadius);
     this.scaleByDistanceCheckbox.checked = cfg.render.scaleByDistance;
+    this.showParastichiesCheckbox.checked = cfg.render.showParastichies;
+    this.inputTilt.value = String(cfg.render.tiltDeg);
+    this.voronoiSelect.value = cfg.render.voronoi;
+
+    this.setInterventions(cfg.interventions);
   }
 
   private populateKernelParamsFromConfig(kernel: KernelConfig): void {
@@ -487,6 +1319,11 @@ export class UI {
         if (this.inputKernelLambda) this.inputKernelLambda.value = String(kernel.lambda);
         if (this.inputKernelD0) this.inputKernelD0.value = String(kernel.d0);
         break;
+      case 'ellipticalExp':
+        if (this.inputKernelA) this.inputKernelA.value = String(kernel.A);
+        if (this.inputKernelLambda) this.inputKernelLambda.value = String(kernel.lambda);
+        if (this.inputKernelAspect) this.inputKernelAspect.value = String(kernel.aspect);
+        break;
       case 'custom':
         if (this.customExprTextarea) this.customExprTextarea.value = kernel.expr;
         if (this.inputKernelA) this.inputKernelA.value = String(kernel.params.A);
@@ -545,6 +1382,14 @@ export class UI {
           d0: getNum(this.inputKernelD0, 0.05)
         };
         break;
+      case 'ellipticalExp':
+        kernel = {
+          type: 'ellipticalExp',
+          A: getNum(this.inputKernelA, 1),
+          lambda: getNum(this.inputKernelLambda, 0.18),
+          aspect: getNum(this.inputKernelAspect, 1.5)
+        };
+        break;
       case 'custom':
         kernel = {
           type: 'custom',
@@ -561,26 +1406,127 @@ export class UI {
         break;
     }
 
+    let geometry: GeometryConfig;
+    switch (this.geometrySelect.value as GeometryConfig['type']) {
+      case 'disk':
+        geometry = { type: 'disk' };
+        break;
+      case 'cylinder':
+        geometry = { type: 'cylinder' };
+        break;
+      case 'dome':
+        geometry = {
+          type: 'dome',
+          shape: (this.domeShapeSelect?.value ?? 'paraboloid') as DomeShape,
+          curvature: getNum(this.inputDomeCurvature, 0.5),
+          metric: (this.domeMetricSelect?.value ?? 'geodesic') as DomeMetric
+        };
+        break;
+    }
+
+    let drift: DriftConfig;
+    switch (this.driftLawSelect.value as DriftConfig['law']) {
+      case 'linear':
+        drift = { law: 'linear' };
+        break;
+      case 'exponential':
+        drift = { law: 'exponential', G: getNum(this.inputDriftG, 0.01) };
+        break;
+      case 'custom':
+        drift = {
+          law: 'custom',
+          expr: this.driftExprTextarea?.value || 'R * exp(G * t)',
+          G: getNum(this.inputDriftG, 0.01)
+        };
+        break;
+    }
+
+    let size: SizeConfig;
+    const edgeToEdge = this.edgeToEdgeCheckbox?.checked ?? false;
+    switch (this.sizeLawSelect.value as SizeConfig['law']) {
+      case 'none':
+        size = { law: 'none' };
+        break;
+      case 'linear':
+      case 'exponential':
+        size = {
+          law: this.sizeLawSelect.value as 'linear' | 'exponential',
+          s0: getNum(this.inputSizeS0, 0.05),
+          g: getNum(this.inputSizeG, 0.001),
+          edgeToEdge
+        };
+        break;
+      case 'proportional':
+        size = { law: 'proportional', ratio: getNum(this.inputSizeRatio, 0.08), edgeToEdge };
+        break;
+    }
+
+    const initiation: InitiationConfig = this.initiationModeSelect.value === 'threshold'
+      ? { mode: 'threshold', threshold: getNum(this.inputThreshold, 0.5) }
+      : { mode: 'argmin' };
+
+    const placement: PlacementConfig = this.placementSolverSelect.value === 'continuous'
+      ? {
+          solver: 'continuous',
+          gridSamples: Math.floor(getNum(this.inputPlacementGrid, 180)),
+          tolerance: getNum(this.inputPlacementTolerance, 1e-9)
+        }
+      : { solver: 'sampled' };
+
     return {
+      geometry,
       R: getNum(this.inputR, 1),
       v: getNum(this.inputV, 0.02),
       dt: getNum(this.inputDt, 1),
+      drift,
+      size,
+      initiation,
+      placement,
       maxR: getNum(this.inputMaxR, 3),
       angleSamples: Math.floor(getNum(this.inputAngleSamples, 720)),
       totalPrimordia: Math.floor(getNum(this.inputTotalPrimordia, 600)),
       batchSize: Math.floor(getNum(this.inputBatchSize, 30)),
+      fieldEval: {
+        mode: this.fieldEvalModeSelect.value as SimConfig['fieldEval']['mode'],
+        tolerance: getNum(this.inputFieldEvalTolerance, 1e-6),
+        compareExact: this.compareExactCheckbox.checked
+      },
       kernel,
+      schedule: {
+        enabled: this.scheduleEnabledCheckbox.checked,
+        variable: this.scheduleVariableSelect.value as SimConfig['schedule']['variable'],
+        tracks: parseScheduleText(this.scheduleTextarea.value).tracks
+      },
+      interventions: this.interventions.map((intervention) => ({ ...intervention })),
       noise: {
         enabled: this.noiseEnabledCheckbox.checked,
+        model: this.noiseModelSelect.value as AngleNoiseModel,
         sigmaThetaDeg: getNum(this.inputNoiseSigma, 2),
-        seed: Math.floor(getNum(this.inputNoiseSeed, 12345))
+        kappa: getNum(this.inputNoiseKappa, 10000),
+        seed: Math.floor(getNum(this.inputNoiseSeed, 12345)),
+        birthRadius: {
+          enabled: this.noiseBirthRadiusCheckbox.checked,
+          sigma: getNum(this.inputNoiseBirthRadiusSigma, 0.01)
+        },
+        amplitude: {
+          enabled: this.noiseAmplitudeCheckbox.checked,
+          sigma: getNum(this.inputNoiseAmplitudeSigma, 0.1)
+        },
+        timing: {
+          enabled: this.noiseTimingCheckbox.checked,
+          sigma: getNum(this.inputNoiseTimingSigma, 0.1)
+        }
       },
       render: {
         showRing: this.showRingCheckbox.checked,
         showMetrics: this.showMetricsCheckbox.checked,
         showFieldPlot: this.showFieldPlotCheckbox.checked,
+        showDivergencePlot: this.showDivergencePlotCheckbox.checked,
         pointRadius: getNum(this.inputPointRadius, 5.0),
-        scaleByDistance: this.scaleByDistanceCheckbox.checked
+        scaleByDistance: this.scaleByDistanceCheckbox.checked,
+        showParastichies: this.showParastichiesCheckbox.checked,
+        tiltDeg: getNum(this.inputTilt, 35),
+        voronoi: this.voronoiSelect.value as VoronoiColoring
       }
     };
   }
@@ -590,6 +1536,12 @@ export class UI {
   // =============================================================================
 
   private handleApply(): void {
+    const scheduleError = this.validateScheduleText();
+    if (scheduleError) {
+      this.showValidation({ valid: false, errors: [scheduleError], warnings: [] });
+      return;
+    }
+
     const cfg = this.readConfigFromUI();
     const result = validateConfig(cfg);
 
@@ -626,14 +1578,61 @@ export class UI {
 
   private handleExport(): void {
     const cfg = this.readConfigFromUI();
-    const json = JSON.stringify(cfg, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'phyllotaxis-config.json';
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadText(JSON.stringify(cfg, null, 2), 'phyllotaxis-config.json', 'application/json');
+  }
+
+  private handleRunSweep(): void {
+    const scheduleError = this.validateScheduleText();
+    if (scheduleError) {
+      this.showValidation({ valid: false, errors: [scheduleError], warnings: [] });
+      return;
+    }
+
+    // Sweeps use the settings as edited, not only the last applied config
+    const base = this.readConfigFromUI();
+    const sweep: SweepConfig = {
+      param: this.sweepParamSelect.value as SweepConfig['param'],
+      from: parseFloat(this.inputSweepFrom.value),
+      to: parseFloat(this.inputSweepTo.value),
+      steps: parseInt(this.inputSweepSteps.value),
+      late: parseInt(this.inputSweepLate.value)
+    };
+
+    const errors = validateSweep(base, sweep);
+    this.showValidation({ valid: errors.length === 0, errors, warnings: [] });
+    if (errors.length > 0) return;
+
+    this.callbacks.onRunSweep(base, sweep);
+  }
+
+  /**
+   * Image settings from the Images section, or null (with the errors shown)
+   * if they are invalid.
+   */
+  private readImageSettings(): ImageSettings | null {
+    const settings: ImageSettings = {
+      width: Number(this.inputImageWidth.value),
+      height: Number(this.inputImageHeight.value),
+      background: this.imageBackgroundSelect.value as ImageBackground
+    };
+    const errors = validateImageSettings(settings);
+    this.showValidation({ valid: errors.length === 0, errors, warnings: [] });
+    return errors.length === 0 ? settings : null;
+  }
+
+  private handleSavePng(): void {
+    const settings = this.readImageSettings();
+    if (settings) this.callbacks.onSavePng(settings);
+  }
+
+  private handleStartRecording(): void {
+    const settings = this.readImageSettings();
+    if (!settings) return;
+    const every = Number(this.inputRecordEvery.value);
+    const errors = validateRecordInterval(every);
+    this.showValidation({ valid: errors.length === 0, errors, warnings: [] });
+    if (errors.length > 0) return;
+    this.callbacks.onStartRecording(settings, every);
   }
 
   private handleImport(e: Event): void {
@@ -644,7 +1643,7 @@ export class UI {
     const reader = new FileReader();
     reader.onload = () => {
       try {
-        const cfg = JSON.parse(reader.result as string) as SimConfig;
+        const cfg = normalizeConfig(JSON.parse(reader.result as string));
         const result = validateConfig(cfg);
         this.showValidation(result);
 
@@ -667,6 +1666,37 @@ export class UI {
     input.value = '';
   }
 
+  private handleLoadCheckpoint(e: Event): void {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const snapshot = parseSnapshot(reader.result as string);
+        const result = validateConfig(snapshot.config);
+        this.showValidation(result);
+
+        if (result.valid) {
+          this.currentConfig = cloneConfig(snapshot.config);
+          this.populateUIFromConfig(this.currentConfig);
+          this.callbacks.onLoadCheckpoint(snapshot);
+        }
+      } catch (err) {
+        this.showValidation({
+          valid: false,
+          errors: [`Invalid checkpoint: ${err instanceof Error ? err.message : err}`],
+          warnings: []
+        });
+      }
+    };
+    reader.readAsText(file);
+
+    // Reset input so same file can be loaded again
+    input.value = '';
+  }
+
   // =============================================================================
   // Validation Display
   // =============================================================================
@@ -688,11 +1718,74 @@ export class UI {
   // Public Methods
   // =============================================================================
 
+  /**
+   * Show non-blocking messages in the validation area (e.g. a rejected
+   * canvas click), replacing what it showed.
+   */
+  showWarning(...messages: string[]): void {
+    this.showValidation({ valid: true, errors: [], warnings: messages });
+  }
+
   setRunning(running: boolean): void {
     this.runBtn.disabled = running;
     this.pauseBtn.disabled = !running;
   }
 
+  setSweepRunning(running: boolean, hasResult: boolean): void {
+    this.runSweepBtn.disabled = running;
+    this.stopSweepBtn.disabled = !running;
+    this.exportSweepBtn.disabled = running || !hasResult;
+  }
+
+  setSweepProgress(text: string): void {
+    this.sweepProgress.textContent = text;
+  }
+
+  setRecording(active: boolean, frames: number): void {
+    this.recordBtn.disabled = active;
+    this.stopRecordBtn.disabled = !active;
+    this.saveRecordingBtn.disabled = frames === 0;
+    this.recordingStatus.textContent = `${active ? 'Recording' : 'Recorded'}: ${frames} frame${frames === 1 ? '' : 's'}`;
+  }
+
+  /**
+   * Replace the intervention log (kept with the config on Apply and Export).
+   */
+  setInterventions(interventions: Intervention[]): void {
+    this.interventions = interventions.map((intervention) => ({ ...intervention }));
+    this.interventionLog.textContent = this.interventions.length > 0
+      ? this.interventions.map(describeIntervention).join('\n')
+      : 'None';
+  }
+
+  /**
+   * Show `step` of `maxStep` on the timeline; `live` if it is the current state.
+   */
+  setTimeline(step: number, maxStep: number, live: boolean): void {
+    this.timelineSlider.max = String(maxStep);
+    this.timelineSlider.value = String(step);
+    this.timelineLabel.textContent = live ? `step ${step}` : `step ${step} / ${maxStep}`;
+    this.timelineLiveBtn.disabled = live;
+  }
+
+  /**
+   * Playback direction (0 = stopped).
+   */
+  setTimelinePlaying(direction: -1 | 0 | 1): void {
+    this.timelineBackBtn.disabled = direction === -1;
+    this.timelinePlayBtn.disabled = direction === 1;
+    this.timelineStopBtn.disabled = direction === 0;
+  }
+
+  /** Steps advanced per animation frame during playback */
+  getTimelineSpeed(): number {
+    return parseInt(this.timelineSpeedSelect.value, 10);
+  }
+
+  getSweepMode(): SweepPlotMode {
+    return this.sweepModeSelect.value as SweepPlotMode;
+  }
+
   getConfig(): SimConfig {
     return cloneConfig(this.currentConfig);
   }
@@ -0,0 +1,24 @@
+import { defineConfig } from 'vite';
+
+// Node build of the headless runner (src/cli/cli.ts) and the golden-output
+// regression check (src/cli/golden.ts)
+export default defineConfig({
+  build: {
+    ssr: true,
+    target: 'node20',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        phyllotaxis: 'src/cli/cli.ts',
+        golden: 'src/cli/golden.ts'
+      },
+      output: { entryFileNames: '[name].js' }
+    }
+  },
+
+  ssr: {
+    // Bundle expr-eval so the output runs without node_modules
+    noExternal: true
+  }
+});